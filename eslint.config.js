@@ -33,12 +33,19 @@ export default [
         EventListener: "readonly",
         EventTarget: "readonly",
         HTMLElement: "readonly",
+        HTMLInputElement: "readonly",
         Element: "readonly",
+        Node: "readonly",
         Map: "readonly",
         Set: "readonly",
         Promise: "readonly",
         WeakMap: "readonly",
-        WeakSet: "readonly"
+        WeakSet: "readonly",
+        AbortController: "readonly",
+        AbortSignal: "readonly",
+        MediaQueryListEvent: "readonly",
+        MouseEvent: "readonly",
+        performance: "readonly"
       }
     },
     plugins: {
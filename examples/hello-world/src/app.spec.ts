@@ -1,5 +1,5 @@
 import { componentTest, NextData } from "pure-ui-actions";
-import app, { State, Component } from "./app";
+import app, { Component } from "./app";
 
 describe("App", () => {
   const { actionTest, taskTest, config, initialState } = componentTest<Component>(app, {
@@ -22,7 +22,7 @@ describe("App", () => {
   });
 
   describe("'ShowMessage' action", () => {
-    const { state, next } = actionTest<State>("ShowMessage", { text: "Hello World!" });
+    const { state, next } = actionTest("ShowMessage", { text: "Hello World!" });
 
     it("should update state", () => {
       expect(state).toEqual({
@@ -41,7 +41,8 @@ export default [
         Set: "readonly",
         Promise: "readonly",
         WeakMap: "readonly",
-        WeakSet: "readonly"
+        WeakSet: "readonly",
+        AbortSignal: "readonly"
       }
     },
     plugins: {
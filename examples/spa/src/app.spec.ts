@@ -7,7 +7,7 @@ describe("App", () => {
   it("should set initial state", () => {
     expect(initialState).toEqual({
       theme: "dark",
-      page: undefined,
+      route: undefined,
       likes: {
         counterPage: 0,
         listPage: 0
@@ -15,28 +15,58 @@ describe("App", () => {
     });
   });
 
-  describe("'SetPage' action", () => {
-    const { state, next } = actionTest<RootState>("SetPage", { page: "test" });
+  describe("'SetRoute' action", () => {
+    const route: RootState["route"] = {
+      name: "listPage",
+      params: {},
+      query: { debug: "1" },
+      path: "/list"
+    };
+    const { state, next } = actionTest("SetRoute", { route });
 
     it("should update state", () => {
       expect(state).toEqual({
         ...initialState,
-        page: "test"
+        route
       });
     });
 
     it("should not return next", () => {
       expect(next).toBeUndefined();
     });
+
+    it("should return the same state when the path and query are unchanged", () => {
+      const current = { ...initialState, route };
+      const result = actionTest(
+        "SetRoute",
+        { route: { ...route, query: { debug: "1" } } },
+        {
+          state: current
+        }
+      );
+      expect(result.state).toBe(current);
+    });
+
+    it("should update state when the query changes", () => {
+      const current = { ...initialState, route };
+      const result = actionTest(
+        "SetRoute",
+        { route: { ...route, query: {} } },
+        {
+          state: current
+        }
+      );
+      expect(result.state.route?.query).toEqual({});
+    });
   });
 
   describe("'SetTheme' action", () => {
-    const { state, next } = actionTest<RootState>("SetTheme", { theme: "test" });
+    const { state, next } = actionTest("SetTheme", { theme: "light" });
 
     it("should update state", () => {
       expect(state).toEqual({
         ...initialState,
-        theme: "test"
+        theme: "light"
       });
     });
 
@@ -46,7 +76,7 @@ describe("App", () => {
   });
 
   describe("'Like' action", () => {
-    const { state, next } = actionTest<RootState>("Like", { page: "listPage" });
+    const { state, next } = actionTest("Like", { page: "listPage" });
 
     it("should update state", () => {
       expect(state).toEqual({
@@ -64,7 +94,7 @@ describe("App", () => {
   });
 
   describe("'SetDocTitle' task", () => {
-    const { perform, success, failure } = taskTest("SetDocTitle", { count: 0 });
+    const { perform, success, failure } = taskTest("SetDocTitle", { title: "test" });
 
     it("should provide perform", () => {
       expect(perform).toBeDefined();
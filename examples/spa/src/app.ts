@@ -1,6 +1,7 @@
 import { component, html, Task, VNode } from "pure-ui-actions";
 import counterPage from "./pages/counterPage";
 import listPage from "./pages/listPage";
+import { Route, routes } from "./routes";
 import "./router";
 const { div } = html;
 
@@ -8,7 +9,7 @@ export type RootProps = Readonly<Record<string, never>>;
 
 export type RootState = Readonly<{
   theme: Theme;
-  page?: Page;
+  route?: Route;
   likes: {
     counterPage: number;
     listPage: number;
@@ -16,7 +17,7 @@ export type RootState = Readonly<{
 }>;
 
 export type RootActionPayloads = Readonly<{
-  SetPage: { page: Page };
+  SetRoute: { route?: Route };
   SetTheme: { theme: Theme };
   Like: { page: Page };
 }>;
@@ -25,7 +26,7 @@ export type RootTaskPayloads = Readonly<{
   SetDocTitle: { title: string };
 }>;
 
-export type Page = "counterPage" | "listPage";
+export type Page = keyof typeof routes;
 
 export type Theme = "light" | "dark";
 
@@ -36,26 +37,39 @@ export type Component = {
   TaskPayloads: RootTaskPayloads;
 };
 
+// Whether two routes have the same path and query, e.g. when only the hash changed
+const isSameRoute = (a?: Route, b?: Route): boolean => {
+  const aQuery = a?.query ?? {};
+  const bQuery = b?.query ?? {};
+  return (
+    a?.path === b?.path &&
+    Object.keys(aQuery).length === Object.keys(bQuery).length &&
+    Object.keys(aQuery).every((key) => aQuery[key] === bQuery[key])
+  );
+};
+
 export default component<Component>(() => ({
   state: (): RootState => ({
     theme: "dark",
-    page: undefined,
+    route: undefined,
     likes: {
       counterPage: 0,
       listPage: 0
     }
   }),
 
+  // Keep the theme and likes between visits
+  persist: { keys: ["theme", "likes"], debounce: 500 },
+
   actions: {
-    SetPage: ({ page }, { state }): { state: RootState } => {
+    SetRoute: ({ route }, { state }): { state: RootState } => {
       return {
-        state:
-          page === state.page
-            ? state
-            : {
-                ...state,
-                page
-              }
+        state: isSameRoute(route, state.route)
+          ? state
+          : {
+              ...state,
+              route
+            }
       };
     },
     SetTheme: ({ theme }, { state }): { state: RootState } => {
@@ -95,12 +109,13 @@ export default component<Component>(() => ({
     return div(
       `#${id}.page`,
       { class: { light: state.theme === "light", dark: state.theme === "dark" } },
-      ((): VNode | undefined => {
-        switch (state.page) {
+      ((): VNode => {
+        switch (state.route?.name) {
           case "listPage":
             return listPage("#list-page");
 
-          case "counterPage":
+          // Unknown paths show the counter page
+          default:
             return counterPage("#counter-page");
         }
       })()
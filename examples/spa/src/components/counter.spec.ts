@@ -1,10 +1,11 @@
 import { componentTest, NextData } from "pure-ui-actions";
-import counter, { State, Component } from "./counter";
+import counter, { Component } from "./counter";
 
 describe("Counter component", () => {
-  const { initialState, actionTest, taskTest, config } = componentTest<Component>(counter, {
-    start: 0
-  });
+  const { initialState, actionTest, taskTest, runChain, viewTest, config } =
+    componentTest<Component>(counter, {
+      start: 0
+    });
 
   it("should set initial state", () => {
     expect(initialState).toEqual({ counter: 0, feedback: "" });
@@ -15,7 +16,7 @@ describe("Counter component", () => {
   });
 
   describe("'Increment' action", () => {
-    const { state, next } = actionTest<State>("Increment", { step: 1 });
+    const { state, next } = actionTest("Increment", { step: 1 });
 
     it("should update state", () => {
       expect(state).toEqual({
@@ -32,7 +33,7 @@ describe("Counter component", () => {
   });
 
   describe("'Decrement' action", () => {
-    const { state, next } = actionTest<State>("Decrement", { step: 1 });
+    const { state, next } = actionTest("Decrement", { step: 1 });
 
     it("should update state", () => {
       expect(state).toEqual({
@@ -49,7 +50,7 @@ describe("Counter component", () => {
   });
 
   describe("'Validate' action", () => {
-    const { state, next } = actionTest<State>("Validate");
+    const { state, next } = actionTest("Validate");
 
     it("should not update state", () => {
       expect(state).toEqual(initialState);
@@ -71,7 +72,7 @@ describe("Counter component", () => {
   });
 
   describe("'SetFeedback' action", () => {
-    const { state, next } = actionTest<State>("SetFeedback", { text: "test" });
+    const { state, next } = actionTest("SetFeedback", { text: "test" });
 
     it("should update state", () => {
       expect(state).toEqual({
@@ -104,4 +105,45 @@ describe("Counter component", () => {
       expect(data).toEqual({ text: "Unavailable" });
     });
   });
+
+  describe("'Increment' chain", () => {
+    it("should show the validation result", () => {
+      const { state, trace } = runChain(
+        "Increment",
+        { step: 1 },
+        { taskResults: { ValidateCount: { result: { text: "Valid" } } } }
+      );
+      expect(trace.map(({ type, name }) => `${type} ${name}`)).toEqual([
+        "action Increment",
+        "action Validate",
+        "action SetFeedback",
+        "task ValidateCount",
+        "action SetFeedback"
+      ]);
+      expect(state).toEqual({ counter: 1, feedback: "Valid" });
+    });
+
+    it("should show when validation is unavailable", () => {
+      const { state } = runChain(
+        "Increment",
+        { step: 1 },
+        { taskResults: { ValidateCount: { error: new Error("Offline") } } }
+      );
+      expect(state).toEqual({ counter: 1, feedback: "Unavailable" });
+    });
+  });
+
+  describe("view", () => {
+    const view = viewTest({ counter: 5, feedback: "Valid" });
+
+    it("should render the count", () => {
+      expect(view.findByText("5")?.tag).toBe("div");
+    });
+
+    it("should increment and decrement on click", () => {
+      const [increment, decrement] = view.findAll("button");
+      expect(increment.on("click")).toEqual({ name: "Increment", data: { step: 1 } });
+      expect(decrement.on("click")).toEqual({ name: "Decrement", data: { step: 1 } });
+    });
+  });
 });
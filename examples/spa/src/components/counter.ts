@@ -83,9 +83,11 @@ export default component<Component>(({ action, task }) => ({
   tasks: {
     ValidateCount: ({ count }): Task<{ text: string }, Props, State> => {
       return {
-        perform: () => validateCount(count),
+        perform: (signal) => validateCount(count, signal),
         success: (result) => action("SetFeedback", result),
-        failure: () => action("SetFeedback", { text: "Unavailable" })
+        failure: () => action("SetFeedback", { text: "Unavailable" }),
+        // Only the latest count's result is shown, earlier runs are aborted
+        concurrency: "takeLatest"
       };
     }
   },
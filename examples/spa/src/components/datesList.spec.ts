@@ -0,0 +1,22 @@
+import { componentTest, viewSnapshotSerializer } from "pure-ui-actions";
+import datesList, { Component } from "./datesList";
+
+expect.addSnapshotSerializer(viewSnapshotSerializer);
+
+describe("Dates list component", () => {
+  const { initialState, viewTest } = componentTest<Component>(datesList, {});
+
+  // The dates listed depend on the current month, so snapshots filter them out
+  const noDates = { ...initialState, filterText: "no matching day", showInfo: false };
+
+  it("should render the filter and an empty list", () => {
+    expect(viewTest(noDates)).toMatchSnapshot();
+  });
+
+  it("should render the info toggle", () => {
+    const view = viewTest(noDates);
+    expect(view.find(".help-toggle")?.on("click")).toEqual({ name: "ToggleInfo" });
+    expect(view.find(".dates-info")).toBeUndefined();
+    expect(viewTest().find(".dates-info")?.text).toMatch(/^Showing \d+ of \d+ days$/);
+  });
+});
@@ -75,7 +75,8 @@ export default component<Component>(({ action }) => ({
       div(".ui-row", [
         input(`#${id}-filter`, {
           props: { type: "text", value: state.filterText, placeholder: "Filter by day or date..." },
-          on: { input: action("SetFilter") }
+          // Debounced, so the list filters once typing pauses
+          on: { input: action("SetFilter", null, { debounce: 200 }) }
         })
       ]),
       div(".ui-row", [
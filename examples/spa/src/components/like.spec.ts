@@ -1,12 +1,11 @@
 import { componentTest } from "pure-ui-actions";
 import like, { Component } from "./like";
-import { RootState } from "../app";
 
 describe("Like component", () => {
   const { actionTest } = componentTest<Component>(like, { page: "counterPage" });
 
   describe("'Like' action", () => {
-    const { state, next } = actionTest<RootState>("Like");
+    const { state, next } = actionTest("Like");
 
     it("should not update state", () => {
       // Stateless component - initialState is undefined, but context defaults to {}
@@ -1,11 +1,13 @@
-import { componentTest, ThunkType, ActionThunk } from "pure-ui-actions";
-import notification, { State, Component } from "./notification";
+import { componentTest, ThunkType, ActionThunk, viewSnapshotSerializer } from "pure-ui-actions";
+import notification, { Component } from "./notification";
 
 const passedInActionThunk: ActionThunk = () => {};
 passedInActionThunk.type = ThunkType.Action;
 
+expect.addSnapshotSerializer(viewSnapshotSerializer);
+
 describe("Notification component", () => {
-  const { initialState, actionTest } = componentTest<Component>(notification, {
+  const { initialState, actionTest, viewTest } = componentTest<Component>(notification, {
     text: "test",
     onDismiss: passedInActionThunk
   });
@@ -15,7 +17,7 @@ describe("Notification component", () => {
   });
 
   describe("'Dismiss' action", () => {
-    const { state, next } = actionTest<State>("Dismiss");
+    const { state, next } = actionTest("Dismiss");
 
     it("should update state", () => {
       expect(state).toEqual({
@@ -28,4 +30,14 @@ describe("Notification component", () => {
       expect(next).toBe(passedInActionThunk);
     });
   });
+
+  describe("view", () => {
+    it("should render shown", () => {
+      expect(viewTest()).toMatchSnapshot();
+    });
+
+    it("should render dismissed", () => {
+      expect(viewTest({ show: false })).toMatchSnapshot();
+    });
+  });
 });
@@ -3,7 +3,8 @@ import counter from "../components/counter";
 import themeMenu from "../components/themeMenu";
 import like from "../components/like";
 import { RootState, RootTaskPayloads } from "../app";
-const { div, span, a } = html;
+import { router } from "../routes";
+const { div, span } = html;
 
 export type Props = Readonly<Record<string, never>>;
 
@@ -19,13 +20,13 @@ export type Component = {
 export default component<Component>(({ rootTask }) => ({
   init: rootTask("SetDocTitle", { title: "Counter Page" }),
 
-  view(id): VNode {
+  view(id, { rootState }): VNode {
     return div(`#${id}`, [
       div(".content", [
         themeMenu("#theme-menu"),
         div(".nav", [
           span("counter page | "),
-          a({ attrs: { href: "/list" + location.search, "data-navigo": true } }, "list page")
+          router.link({ name: "listPage", query: rootState.route?.query }, "list page")
         ]),
         like("#counter-like", { page: "counterPage" })
       ]),
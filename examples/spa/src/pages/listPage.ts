@@ -3,7 +3,8 @@ import themeMenu from "../components/themeMenu";
 import like from "../components/like";
 import datesList from "../components/datesList";
 import { RootState, RootTaskPayloads } from "../app";
-const { div, span, a } = html;
+import { router } from "../routes";
+const { div, span } = html;
 
 export type Props = Readonly<Record<string, never>>;
 
@@ -19,13 +20,13 @@ export type Component = {
 export default component<Component>(({ rootTask }) => ({
   init: rootTask("SetDocTitle", { title: "List Page" }),
 
-  view(id): VNode {
+  view(id, { rootState }): VNode {
     return div(
       `#${id}`,
       div(".content", [
         themeMenu("#theme-menu"),
         div(".nav", [
-          a({ attrs: { href: "/counter" + location.search, "data-navigo": true } }, "counter page"),
+          router.link({ name: "counterPage", query: rootState.route?.query }, "counter page"),
           span(" | list page")
         ]),
         like("#list-like", { page: "listPage" }),
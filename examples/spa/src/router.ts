@@ -1,8 +1,6 @@
-import { mount, subscribe, RunAction } from "pure-ui-actions";
-import Navigo from "navigo";
+import { mount, RunAction } from "pure-ui-actions";
 import app, { RootActionPayloads, RootProps } from "./app";
-
-const router = new Navigo("/demos/pure-ui-actions/spa/");
+import { router } from "./routes";
 
 document.addEventListener("DOMContentLoaded", () =>
   mount<RootActionPayloads, RootProps>({
@@ -12,14 +10,7 @@ document.addEventListener("DOMContentLoaded", () =>
     // Manually invoking an action is an error, so `runRootAction` is provided
     // by `mount` for wiring up events to root actions (e.g. routing)
     init: (runRootAction: RunAction<RootActionPayloads>) => {
-      const list = (): void => runRootAction("SetPage", { page: "listPage" });
-      const counter = (): void => runRootAction("SetPage", { page: "counterPage" });
-
-      router.on({ list, counter, "*": counter }).resolve();
-
-      subscribe("patch", () => {
-        router.updatePageLinks();
-      });
+      router.start(runRootAction, "SetRoute");
     }
   })
 );
@@ -0,0 +1,10 @@
+import { createRouter, Route as RouteOf } from "pure-ui-actions";
+
+export const routes = {
+  counterPage: "/counter",
+  listPage: "/list"
+} as const;
+
+export type Route = RouteOf<typeof routes>;
+
+export const router = createRouter(routes, { base: "/demos/pure-ui-actions/spa" });
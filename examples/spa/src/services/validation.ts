@@ -1,12 +1,16 @@
-export function validateCount(num: number): Promise<{ text: string }> {
-  return new Promise((resolve) => {
+export function validateCount(num: number, signal?: AbortSignal): Promise<{ text: string }> {
+  return new Promise((resolve, reject) => {
     // Mock async
-    setTimeout(
+    const timeout = setTimeout(
       () =>
         resolve({
           text: num % 2 === 0 ? "✓ Even" : "x Odd"
         }),
       500
     );
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    });
   });
 }
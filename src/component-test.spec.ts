@@ -0,0 +1,250 @@
+import {
+  component,
+  componentTest,
+  ComponentType,
+  html,
+  Next,
+  NextData,
+  Task
+} from "./pure-ui-actions";
+const { div } = html;
+
+describe("componentTest", () => {
+  type State = { count: number; feedback: string };
+  type CounterComponent = {
+    Props: { start: number };
+    State: State;
+    RootState: { max: number };
+    ActionPayloads: {
+      Increment: { step: number };
+      Validate: null;
+      SetFeedback: { text: string };
+      Notify: null;
+      StartPolling: null;
+    };
+    TaskPayloads: { ValidateCount: { count: number }; Poll: null };
+    RootActionPayloads: { ShowToast: { text: string } };
+  };
+
+  const performed: string[] = [];
+
+  const counter = component<CounterComponent>(({ action, task, rootAction }) => ({
+    state: ({ start }): State => ({ count: start, feedback: "" }),
+    actions: {
+      Increment: ({ step }, { state, rootState }): { state: State; next: Next } => ({
+        state: { ...state, count: Math.min(state.count + step, rootState.max ?? Infinity) },
+        next: action("Validate")
+      }),
+      Validate: (_, { state }): { state: State; next: Next } => ({
+        state,
+        next: [
+          action("SetFeedback", { text: "Validating..." }),
+          task("ValidateCount", { count: state.count })
+        ]
+      }),
+      SetFeedback: ({ text }, { state }): { state: State } => ({
+        state: { ...state, feedback: text }
+      }),
+      Notify: (_, { state }): { state: State; next: Next } => ({
+        state,
+        next: rootAction("ShowToast", { text: `Count is ${state.count}` })
+      }),
+      StartPolling: (_, { state }): { state: State; next: Next } => ({ state, next: task("Poll") })
+    },
+    tasks: {
+      ValidateCount: ({ count }): Task<{ text: string }, CounterComponent["Props"], State> => ({
+        perform: (): Promise<{ text: string }> => {
+          performed.push(`ValidateCount ${count}`);
+          return Promise.resolve({ text: "Valid" });
+        },
+        success: (result, { state }) =>
+          action("SetFeedback", { text: `${result.text} ${state.count}` }),
+        failure: () => action("SetFeedback", { text: "Unavailable" })
+      }),
+      Poll: (): Task<boolean, CounterComponent["Props"], State> => ({
+        perform: (): boolean => true,
+        success: (done) => (done ? undefined : task("Poll"))
+      })
+    },
+    view: (id, { state }) => div(`#${id}`, String(state.count))
+  }));
+
+  const { initialState, runChain } = componentTest<CounterComponent>(counter, { start: 0 });
+
+  it("should type check names, payloads and state", () => {
+    // Checked by the type-check only
+    const invalid = (): void => {
+      const { actionTest, taskTest } = componentTest<CounterComponent>(counter, { start: 0 });
+      // @ts-expect-error unknown action
+      actionTest("Incremnt", { step: 1 });
+      // @ts-expect-error step must be a number
+      actionTest("Increment", { step: "1" });
+      // @ts-expect-error unknown task
+      taskTest("Validate", { count: 0 });
+      // @ts-expect-error count must be a number
+      taskTest("ValidateCount", { count: "0" });
+      // @ts-expect-error unknown task result
+      runChain("Validate", undefined, { taskResults: { ValidateCnt: { result: {} } } });
+
+      const { state, next } = actionTest("Increment", { step: 1 });
+      // @ts-expect-error count is a number
+      const count: string = state.count;
+      if (next && !Array.isArray(next) && next.name === "ValidateCount") {
+        // @ts-expect-error data is narrowed to the task's payload
+        const text: string | undefined = next.data?.text;
+        void text;
+      }
+      // @ts-expect-error not an action or task of the component
+      const name: NextData<CounterComponent>["name"] = "Missing";
+      void count;
+      void name;
+    };
+    expect(invalid).toBeInstanceOf(Function);
+  });
+
+  it("should still accept the deprecated ComponentType", () => {
+    const { actionTest } = componentTest<ComponentType<{ start: number }, State>>(counter, {
+      start: 1
+    });
+    const { state } = actionTest("SetFeedback", { text: "Done" });
+    expect(state).toEqual({ count: 1, feedback: "Done" });
+  });
+
+  it("should still accept a state type argument to actionTest", () => {
+    const { actionTest } = componentTest<ComponentType<{ start: number }>>(counter, { start: 1 });
+    const { state } = actionTest<State>("SetFeedback", { text: "Done" });
+    const feedback: string = state.feedback;
+    expect(feedback).toBe("Done");
+
+    const typed = componentTest<CounterComponent>(counter, { start: 1 });
+    expect(typed.actionTest<State>("Increment", { step: 1 }).state.count).toBe(2);
+  });
+
+  it("should follow actions and tasks, returning the trace and final state", () => {
+    const { state, trace } = runChain(
+      "Increment",
+      { step: 2 },
+      {
+        rootState: { max: 10 },
+        taskResults: { ValidateCount: { result: { text: "Valid" } } }
+      }
+    );
+    expect(state).toEqual({ count: 2, feedback: "Valid 2" });
+    expect(trace).toEqual([
+      { type: "action", name: "Increment", data: { step: 2 }, state: { count: 2, feedback: "" } },
+      { type: "action", name: "Validate", state: { count: 2, feedback: "" } },
+      {
+        type: "action",
+        name: "SetFeedback",
+        data: { text: "Validating..." },
+        state: { count: 2, feedback: "Validating..." }
+      },
+      {
+        type: "task",
+        name: "ValidateCount",
+        data: { count: 2 },
+        failed: false,
+        result: { text: "Valid" }
+      },
+      {
+        type: "action",
+        name: "SetFeedback",
+        data: { text: "Valid 2" },
+        state: { count: 2, feedback: "Valid 2" }
+      }
+    ]);
+    expect(performed).toEqual([]);
+    expect(initialState).toEqual({ count: 0, feedback: "" });
+  });
+
+  it("should run failure with a supplied error", () => {
+    const { state, trace } = runChain("Validate", undefined, {
+      taskResults: { ValidateCount: { error: new Error("Offline") } }
+    });
+    expect(state).toEqual({ count: 0, feedback: "Unavailable" });
+    expect(trace[2]).toEqual({
+      type: "task",
+      name: "ValidateCount",
+      data: { count: 0 },
+      failed: true,
+      error: new Error("Offline")
+    });
+  });
+
+  it("should start from the given state", () => {
+    const { state } = runChain(
+      "Increment",
+      { step: 1 },
+      {
+        state: { count: 5, feedback: "" },
+        rootState: { max: 10 },
+        taskResults: { ValidateCount: { result: { text: "Valid" } } }
+      }
+    );
+    expect(state).toEqual({ count: 6, feedback: "Valid 6" });
+  });
+
+  it("should record root actions without following them", () => {
+    const { state, trace } = runChain("Notify", undefined, {
+      state: { count: 3, feedback: "" }
+    });
+    expect(state).toEqual({ count: 3, feedback: "" });
+    expect(trace).toEqual([
+      { type: "action", name: "Notify", state: { count: 3, feedback: "" } },
+      { type: "rootAction", name: "ShowToast", data: { text: "Count is 3" } }
+    ]);
+  });
+
+  it("should use an array of results for each run in order", () => {
+    const { trace } = runChain("StartPolling", undefined, {
+      taskResults: { Poll: [{ result: false }, { result: false }, { result: true }] }
+    });
+    expect(trace.map((step) => (step.type === "task" ? step.result : step.name))).toEqual([
+      "StartPolling",
+      false,
+      false,
+      true
+    ]);
+  });
+
+  it("should throw for missing task results", () => {
+    expect(() => runChain("Validate")).toThrow(
+      'No result for task "ValidateCount", add it to `taskResults`'
+    );
+    expect(() =>
+      runChain("StartPolling", undefined, { taskResults: { Poll: [{ result: false }] } })
+    ).toThrow('Task "Poll" ran 2 times, `taskResults` has 1');
+  });
+
+  it("should throw for chains that don't end", () => {
+    expect(() =>
+      runChain("StartPolling", undefined, {
+        taskResults: { Poll: { result: false } },
+        maxSteps: 10
+      })
+    ).toThrow("Chain exceeded 10 steps");
+  });
+
+  it("should pass a signal to perform", async () => {
+    const fetcher = component<{ TaskPayloads: { Load: null } }>(() => ({
+      tasks: {
+        Load: () => ({
+          perform: (signal: AbortSignal): Promise<boolean> => Promise.resolve(signal.aborted)
+        })
+      },
+      view: (id) => div(`#${id}`)
+    }));
+    const { taskTest } = componentTest<{ TaskPayloads: { Load: null } }>(fetcher);
+    await expect(taskTest("Load").perform()).resolves.toBe(false);
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(taskTest("Load").perform(controller.signal)).resolves.toBe(true);
+  });
+
+  it("should throw for unknown actions", () => {
+    expect(() => componentTest(counter, { start: 0 }).runChain("Missing")).toThrow(
+      'Action "Missing" not found'
+    );
+  });
+});
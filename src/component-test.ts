@@ -2,8 +2,9 @@
 API for unit testing components
 
 - Initialise component test API
-import counter from "./counter";
-const { initialState, actionTest, taskTest, config } = componentTest(counter, { start: 0 });
+import counter, { Component } from "./counter";
+const { initialState, actionTest, taskTest, config } = componentTest<Component>(counter, { start: 0 });
+Action and task names and payloads are checked against the `Component` type
 
 - Test an action: outputs `state` and `next` results as data
 const { state, next } = actionTest("Increment", { step: 1 });
@@ -21,8 +22,35 @@ const { state, next } = actionTest("HandleSubmit", {}, {
 - Test a task: returns `success` and `failure` callbacks for tests to invoke
 const { perform, success, failure } = taskTest("ValidateCount", { count: 0 });
 const { name, data } = success({ text: "Test" });
+
+- Test a task that uses the component's element, e.g. from `onMount`
+const { perform } = taskTest("Measure", null, { element: mockElement });
+
+- Run an action and follow its next actions and tasks, with results given for tasks
+const { state, trace } = runChain("Increment", { step: 1 }, {
+  taskResults: { ValidateCount: { result: { text: "Valid" } } }
+});
+expect(trace.map((step) => step.name)).toEqual(["Increment", "Validate", "ValidateCount", "SetFeedback"]);
+
+- Test a view: returns its VNodes wrapped for finding elements and their event handlers
+const view = viewTest({ counter: 1, feedback: "" });
+expect(view.findByText("1")?.tag).toBe("div");
+expect(view.find("button")?.on("click")).toEqual({ name: "Increment", data: { step: 1 } });
+expect(view.toSnapshot()).toMatchSnapshot();
+
+- Debounce or throttle options are included with the next data
+expect(config.init).toEqual({ name: "Poll", timing: { throttle: 1000 } });
 */
-import { Config, Context } from "./pure-ui-actions.types";
+import {
+  Component,
+  Config,
+  Context,
+  FakeTaskResult,
+  TaskContext,
+  ThunkTiming
+} from "./pure-ui-actions.types";
+import { renderDetached } from "./render-detached";
+import { createViewNode, ViewNode } from "./view-test";
 
 // Options for testing actions with custom context
 // Note: Props are set during component initialization and cannot be overridden per-action
@@ -35,63 +63,167 @@ export type ActionTestOptions<TState, TRootState> = {
   event?: Event;
 };
 
-export type NextData = {
-  name: string;
-  data?: Record<string, unknown>;
+// An action or task for each name in a set of payloads
+type NextDataFor<TPayloads> = {
+  [TName in keyof TPayloads]: {
+    name: TName;
+    data?: TPayloads[TName];
+    // Debounce or throttle options passed to `action()` or `task()`
+    timing?: ThunkTiming;
+  };
+}[keyof TPayloads];
+
+// Next action or task as data, a union of the component's actions and tasks when typed
+export type NextData<TComponent extends Component = Component> =
+  | NextDataFor<NonNullable<TComponent["ActionPayloads"]>>
+  | NextDataFor<NonNullable<TComponent["TaskPayloads"]>>
+  | NextDataFor<NonNullable<TComponent["RootActionPayloads"]>>
+  | NextDataFor<NonNullable<TComponent["RootTaskPayloads"]>>;
+
+// Options for `runChain`, `state` and `rootState` are the context of the first action
+export type ChainOptions<TComponent extends Component = Component> = ActionTestOptions<
+  TComponent["State"],
+  TComponent["RootState"]
+> & {
+  // Provide the component's element for tasks that access it
+  element?: Element;
+  // Outcome of each task by name, an array gives the outcome of each run in order
+  taskResults?: {
+    [TName in keyof NonNullable<TComponent["TaskPayloads"]>]?: FakeTaskResult | FakeTaskResult[];
+  };
+  // Guards against chains that never end, e.g. polling
+  maxSteps?: number;
 };
 
-// Type helper to extract component type structure
-export type ComponentType<TProps = unknown, TState = unknown, TRootState = unknown> = {
-  Props: TProps;
-  State: TState;
-  RootState?: TRootState;
+// A step of a chain: an action with the state it returned, a task with its outcome,
+// or a root action or task, which is recorded but not followed
+export type ChainStep<TComponent extends Component = Component> =
+  | { type: "action"; name: string; data?: unknown; state: TComponent["State"] }
+  | {
+      type: "task";
+      name: string;
+      data?: unknown;
+      failed: boolean;
+      result?: unknown;
+      error?: unknown;
+    }
+  | { type: "rootAction" | "rootTask"; name: string; data?: unknown };
+
+export type ChainResult<TComponent extends Component = Component> = {
+  state: TComponent["State"];
+  trace: ChainStep<TComponent>[];
 };
 
-export type ComponentTestApi<
+/**
+ * @deprecated Use the `Component` type passed to `component<...>()`, which also types
+ * action and task names and payloads
+ */
+export type ComponentType<
+  TProps = Record<string, unknown>,
   TState = Record<string, unknown>,
   TRootState = Record<string, unknown>
 > = {
+  Props: TProps;
+  State: TState;
+  RootState?: TRootState;
+  // Names and payloads are not checked, as before `Component`
+  ActionPayloads?: Record<string, unknown>;
+  TaskPayloads?: Record<string, unknown>;
+};
+
+export type ComponentTestApi<TComponent extends Component = Component> = {
   config: Config;
-  initialState: TState;
-  actionTest: <TActionState = TState>(
-    name: string,
-    data?: Record<string, unknown>,
-    options?: ActionTestOptions<TActionState, TRootState>
-  ) => { state: TActionState; next?: NextData | NextData[] };
-  taskTest: (name: string, data?: Record<string, unknown>) => TaskTestSpec;
+  initialState: TComponent["State"];
+  actionTest: {
+    <TName extends keyof NonNullable<TComponent["ActionPayloads"]>>(
+      name: TName,
+      data?: NonNullable<TComponent["ActionPayloads"]>[TName],
+      options?: ActionTestOptions<TComponent["State"], TComponent["RootState"]>
+    ): { state: TComponent["State"]; next?: NextData<TComponent> | NextData<TComponent>[] };
+    /**
+     * @deprecated The state type now comes from the component type, remove the type argument
+     */
+    <TActionState = never>(
+      name: keyof NonNullable<TComponent["ActionPayloads"]>,
+      // Only matched with an explicit state type, so payloads are still checked without one
+      data?: [TActionState] extends [never]
+        ? never
+        : NonNullable<TComponent["ActionPayloads"]>[keyof NonNullable<
+            TComponent["ActionPayloads"]
+          >],
+      options?: ActionTestOptions<NoInfer<TActionState>, TComponent["RootState"]>
+    ): { state: TActionState; next?: NextData<TComponent> | NextData<TComponent>[] };
+  };
+  taskTest: <TName extends keyof NonNullable<TComponent["TaskPayloads"]>>(
+    name: TName,
+    data?: NonNullable<TComponent["TaskPayloads"]>[TName],
+    ctx?: TaskContext
+  ) => TaskTestSpec<TComponent>;
+  runChain: <TName extends keyof NonNullable<TComponent["ActionPayloads"]>>(
+    name: TName,
+    data?: NonNullable<TComponent["ActionPayloads"]>[TName],
+    options?: ChainOptions<TComponent>
+  ) => ChainResult<TComponent>;
+  // Renders the view with `initialState`, the component's props and empty rootState by default
+  viewTest: (
+    state?: TComponent["State"],
+    props?: TComponent["Props"],
+    rootState?: TComponent["RootState"]
+  ) => ViewNode<TComponent>;
 };
 
-export type TaskTestSpec<
-  TProps = Record<string, unknown>,
-  TState = Record<string, unknown>,
-  TRootState = Record<string, unknown>
-> = {
-  perform: () => Promise<unknown> | void;
+export type TaskTestSpec<TComponent extends Component = Component> = {
+  // Runs with a signal that is never aborted unless one is passed
+  perform: (signal?: AbortSignal) => Promise<unknown> | void;
   success?: (
     result?: unknown,
-    ctx?: Context<TProps, TState, TRootState>
-  ) => NextData | NextData[] | undefined;
+    ctx?: TestContext<TComponent>
+  ) => NextData<TComponent> | NextData<TComponent>[] | undefined;
   failure?: (
     error?: unknown,
-    ctx?: Context<TProps, TState, TRootState>
-  ) => NextData | NextData[] | undefined;
+    ctx?: TestContext<TComponent>
+  ) => NextData<TComponent> | NextData<TComponent>[] | undefined;
 };
 
+type TestContext<TComponent extends Component> = Context<
+  TComponent["Props"],
+  TComponent["State"],
+  TComponent["RootState"]
+> &
+  TaskContext;
+
+// Component id passed to the view by `viewTest`
+const viewTestId = "test";
+
 // Returns next action/task inputs as data
-const nextToData = (name: string, data?: Record<string, unknown>): NextData => ({ name, data });
+const nextToData = (name: string, data?: unknown, timing?: ThunkTiming): NextData =>
+  timing ? { name, data, timing } : { name, data };
+
+// Whether each next came from `action`, `task`, `rootAction` or `rootTask`, for `runChain`
+const nextTypes = new WeakMap<NextData, ChainStep["type"]>();
+
+const typedNextToData =
+  (type: ChainStep["type"]) =>
+  (name: string, data?: unknown, timing?: ThunkTiming): NextData => {
+    const next = nextToData(name, data, timing);
+    nextTypes.set(next, type);
+    return next;
+  };
 
-export function componentTest<TComponent extends Partial<ComponentType>>(
+export function componentTest<TComponent extends Component = Component>(
   component: { getConfig: Function },
   props?: TComponent["Props"]
-): ComponentTestApi<TComponent["State"], TComponent["RootState"]> {
+): ComponentTestApi<TComponent> {
+  type Api = ComponentTestApi<TComponent>;
+  type State = TComponent["State"];
   // Initialise component passing in `nextToData()` instead of `action()` and `task()` functions
   const config = component.getConfig({
-    action: nextToData,
-    task: nextToData,
-    rootAction: nextToData,
-    rootTask: nextToData
+    action: typedNextToData("action"),
+    task: typedNextToData("task"),
+    rootAction: typedNextToData("rootAction"),
+    rootTask: typedNextToData("rootTask")
   });
-  const initialState = config.state && config.state(props);
+  const initialState: State = config.state && config.state(props);
 
   return {
     // Output from the callback passed into `component(...)`
@@ -100,24 +232,133 @@ export function componentTest<TComponent extends Partial<ComponentType>>(
     // For comparing state changes
     initialState,
 
-    actionTest<TState, TRootState = Record<string, unknown>>(
+    actionTest: ((
       name: string,
-      data?: Record<string, unknown>,
-      options?: ActionTestOptions<TState, TRootState>
-    ): { state: TState; next?: NextData | NextData[] } {
+      data?: unknown,
+      options?: ActionTestOptions<State, TComponent["RootState"]>
+    ) =>
       // Returns any next operations as data
-      return config.actions[name](data, {
+      config.actions[name](data, {
         props: props ?? {},
         state: options?.state !== undefined ? options.state : (initialState ?? {}),
         rootState: options?.rootState ?? {},
         event: options?.event
-      });
-    },
+      })) as Api["actionTest"],
 
     // Get task spec for manually testing `success` and `failure` output
-    taskTest(name: string, data?: Record<string, unknown>): TaskTestSpec {
+    taskTest(name, data, ctx): TaskTestSpec<TComponent> {
       // Returns task spec
-      return config.tasks[name](data);
+      const spec = config.tasks[name](data, ctx ?? {});
+      return {
+        ...spec,
+        perform: (signal = new AbortController().signal) => spec.perform(signal)
+      };
+    },
+
+    // Runs actions as they return, and tasks once the actions before them have run,
+    // as tasks complete after the current action chain when mounted
+    runChain(name, data, options = {}): ChainResult<TComponent> {
+      const { maxSteps = 100, element } = options;
+      const taskResults: Record<string, FakeTaskResult | FakeTaskResult[] | undefined> =
+        options.taskResults ?? {};
+      const rootState = options.rootState ?? {};
+      let state: State = options.state !== undefined ? options.state : (initialState ?? {});
+      const trace: ChainStep<TComponent>[] = [];
+      const pendingTasks: NextData[] = [];
+      const taskRuns: Record<string, number> = {};
+
+      const addStep = (step: ChainStep<TComponent>): void => {
+        if (trace.length >= maxSteps) {
+          throw Error(`Chain exceeded ${maxSteps} steps, set \`maxSteps\` for longer chains`);
+        }
+        trace.push(step);
+      };
+
+      const getTaskResult = (taskName: string): FakeTaskResult => {
+        const outcomes = taskResults[taskName];
+        if (!outcomes) {
+          throw Error(`No result for task "${taskName}", add it to \`taskResults\``);
+        }
+        if (!Array.isArray(outcomes)) {
+          return outcomes;
+        }
+        const run = (taskRuns[taskName] = (taskRuns[taskName] ?? 0) + 1);
+        if (run > outcomes.length) {
+          throw Error(
+            `Task "${taskName}" ran ${run} times, \`taskResults\` has ${outcomes.length}`
+          );
+        }
+        return outcomes[run - 1];
+      };
+
+      const runNext = (next: unknown, event?: Event): void => {
+        (Array.isArray(next) ? next : next ? [next] : []).forEach((item: NextData) => {
+          const type = nextTypes.get(item) ?? "action";
+          if (type === "task") {
+            pendingTasks.push(item);
+          } else if (type === "action") {
+            const handler = config.actions?.[item.name];
+            if (!handler) {
+              throw Error(`Action "${item.name}" not found`);
+            }
+            const output = handler(item.data, {
+              props: props ?? {},
+              state,
+              rootState,
+              event
+            });
+            state = output.state;
+            addStep({ type, name: item.name, data: item.data, state });
+            runNext(output.next);
+          } else {
+            addStep({ type, name: item.name, data: item.data });
+          }
+        });
+      };
+
+      runNext(nextToData(String(name), data), options.event);
+      while (pendingTasks.length) {
+        const { name: taskName, data: taskData } = pendingTasks.shift() as NextData;
+        const getSpec = config.tasks?.[taskName];
+        if (!getSpec) {
+          throw Error(`Task "${taskName}" not found`);
+        }
+        const spec: TaskTestSpec = getSpec(taskData, { element });
+        const outcome = getTaskResult(taskName);
+        const ctx = { props: props ?? {}, state, rootState, element };
+        if ("error" in outcome) {
+          addStep({
+            type: "task",
+            name: taskName,
+            data: taskData,
+            failed: true,
+            error: outcome.error
+          });
+          runNext(spec.failure?.(outcome.error, ctx));
+        } else {
+          addStep({
+            type: "task",
+            name: taskName,
+            data: taskData,
+            failed: false,
+            result: outcome.result
+          });
+          runNext(spec.success?.(outcome.result, ctx));
+        }
+      }
+      return { state, trace };
+    },
+
+    viewTest(state = initialState, viewProps = props, rootState = {}): ViewNode<TComponent> {
+      const vnode = renderDetached(
+        () => config.view(viewTestId, { props: viewProps ?? {}, state: state ?? {}, rootState }),
+        {
+          rootState: rootState ?? {},
+          rootAction: typedNextToData("rootAction"),
+          rootTask: typedNextToData("rootTask")
+        }
+      );
+      return createViewNode<TComponent>(vnode, (next) => nextTypes.get(next as NextData));
     }
   };
 }
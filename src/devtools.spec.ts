@@ -0,0 +1,228 @@
+import { vi } from "vitest";
+
+// The DevTools connection is made when `log` is loaded, so the extension is installed first
+const devTools = vi.hoisted(() => {
+  const connection = {
+    sent: [] as { type: string }[],
+    listener: undefined as ((message: unknown) => void) | undefined,
+    init: (): void => {},
+    send(action: { type: string }): void {
+      connection.sent.push(action);
+    },
+    subscribe(listener: (message: unknown) => void): void {
+      connection.listener = listener;
+    }
+  };
+  (window as unknown as Record<string, unknown>).__REDUX_DEVTOOLS_EXTENSION__ = {
+    connect: () => connection
+  };
+  return connection;
+});
+
+import { _setTestKey, component, html, mount } from "./pure-ui-actions";
+const { div } = html;
+const testKey = _setTestKey({});
+
+describe("Redux DevTools", () => {
+  let fetched: number[];
+  let appAction: Function;
+  let counterAction: Function;
+
+  type CounterComponent = {
+    Props: { start: number };
+    State: { count: number };
+    ActionPayloads: { Increment: null };
+    TaskPayloads: { Fetch: { count: number } };
+  };
+
+  const counter = component<CounterComponent>(({ action, task }) => {
+    counterAction = action;
+    return {
+      state: ({ start }) => ({ count: start }),
+      init: action("Increment"),
+      onMount: task("Fetch", { count: 0 }),
+      actions: {
+        Increment: (_, { state }) => ({ state: { count: state.count + 1 } })
+      },
+      tasks: {
+        Fetch: ({ count }) => ({
+          perform: (): void => {
+            fetched.push(count);
+          }
+        })
+      },
+      view: (id, { state }) => div(`#${id}`, String(state.count))
+    };
+  });
+
+  type AppComponent = {
+    State: { showCounter: boolean; title: string };
+    ActionPayloads: { Toggle: null; SetTitle: { title: string } };
+  };
+
+  const app = component<AppComponent>(({ action }) => {
+    appAction = action;
+    return {
+      state: () => ({ showCounter: true, title: "a" }),
+      actions: {
+        Toggle: (_, { state }) => ({ state: { ...state, showCounter: !state.showCounter } }),
+        SetTitle: ({ title }, { state }) => ({ state: { ...state, title } })
+      },
+      view: (id, { state }) =>
+        div(`#${id}`, [
+          div(".title", state.title),
+          state.showCounter ? counter("counter", { start: 10 }) : ""
+        ])
+    };
+  });
+
+  const jump = (state: Record<string, unknown>, type = "JUMP_TO_ACTION"): void =>
+    devTools.listener?.({ type: "DISPATCH", payload: { type }, state: JSON.stringify(state) });
+
+  const text = (selector: string): string | null | undefined =>
+    document.querySelector(selector)?.textContent;
+
+  beforeEach(() => {
+    fetched = [];
+    devTools.sent = [];
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  it("should subscribe to DevTools messages", () => {
+    expect(devTools.listener).toBeInstanceOf(Function);
+  });
+
+  it("should restore component state and render again", () => {
+    const { getRootState, getComponentRegistry, unmount } = mount({ app, props: {} });
+    appAction("SetTitle", { title: "b" })(testKey);
+    counterAction("Increment")(testKey);
+
+    jump({ app: { showCounter: true, title: "a" }, counter: { count: 11 } });
+    expect(getRootState()).toEqual({ showCounter: true, title: "a" });
+    expect(getComponentRegistry().get("counter")?.state).toEqual({ count: 11 });
+    expect(text(".title")).toBe("a");
+    expect(text("#counter")).toBe("11");
+    unmount();
+  });
+
+  it("should recreate components with their state from the snapshot", () => {
+    const { unmount } = mount({ app, props: {} });
+    appAction("Toggle")(testKey);
+    expect(document.getElementById("counter")).toBeNull();
+    fetched = [];
+
+    jump({ app: { showCounter: true, title: "a" }, counter: { count: 15 } }, "JUMP_TO_STATE");
+    // Init is not run again, and tasks are skipped
+    expect(text("#counter")).toBe("15");
+    expect(fetched).toEqual([]);
+    unmount();
+  });
+
+  it("should remove components missing from the snapshot", () => {
+    const { getComponentRegistry, unmount } = mount({ app, props: {} });
+    jump({ app: { showCounter: false, title: "a" } });
+    expect(document.getElementById("counter")).toBeNull();
+    expect(getComponentRegistry().has("counter")).toBe(false);
+    unmount();
+  });
+
+  it("should not send restored state to DevTools", () => {
+    const { unmount } = mount({ app, props: {} });
+    devTools.sent = [];
+    jump({ app: { showCounter: true, title: "b" }, counter: { count: 11 } });
+    expect(devTools.sent).toEqual([]);
+    unmount();
+  });
+
+  it("should run tasks again after travelling", () => {
+    const { unmount } = mount({ app, props: {} });
+    jump({ app: { showCounter: false, title: "a" } });
+    fetched = [];
+    appAction("Toggle")(testKey);
+    expect(fetched).toEqual([0]);
+    unmount();
+  });
+
+  it("should ignore other DevTools messages", () => {
+    const { getRootState, unmount } = mount({ app, props: {} });
+    devTools.listener?.({ type: "START" });
+    devTools.listener?.({
+      type: "DISPATCH",
+      payload: { type: "COMMIT" },
+      state: JSON.stringify({ app: { title: "b" } })
+    });
+    expect(getRootState()?.title).toBe("a");
+    unmount();
+  });
+
+  it("should not restore unmounted apps", () => {
+    const { getRootState, unmount } = mount({ app, props: {} });
+    unmount();
+    jump({ app: { showCounter: true, title: "b" } });
+    expect(getRootState()).toBeUndefined();
+  });
+
+  describe("dispatch", () => {
+    const dispatch = (action: unknown): void =>
+      devTools.listener?.({
+        type: "ACTION",
+        payload: typeof action === "string" ? action : JSON.stringify(action)
+      });
+
+    let errors: string[];
+    let unmount: () => void;
+
+    beforeEach(() => {
+      errors = [];
+      vi.spyOn(console, "error").mockImplementation((msg: string) => {
+        errors.push(msg);
+      });
+      ({ unmount } = mount({ app, props: {} }));
+    });
+
+    afterEach(() => {
+      unmount();
+      vi.restoreAllMocks();
+    });
+
+    it("should run a component's action", () => {
+      dispatch({ type: "counter/Increment" });
+      expect(text("#counter")).toBe("12");
+    });
+
+    it("should pass the payload as data", () => {
+      dispatch({ type: "app/SetTitle", payload: { title: "b" } });
+      expect(text(".title")).toBe("b");
+      expect(devTools.sent).toContainEqual({ type: "app/SetTitle", payload: { title: "b" } });
+    });
+
+    it("should run tasks returned by the action", () => {
+      dispatch({ type: "app/Toggle" });
+      fetched = [];
+      dispatch({ type: "app/Toggle" });
+      expect(fetched).toEqual([0]);
+    });
+
+    it("should show an error for an unknown component", () => {
+      dispatch({ type: "missing/Increment" });
+      expect(errors).toEqual([
+        `DevTools dispatch failed: Component "missing" not found, expected "<componentId>/<ActionName>"`
+      ]);
+      expect(devTools.sent).toContainEqual(expect.objectContaining({ type: "[Dispatch error]" }));
+    });
+
+    it("should show an error for an unknown action", () => {
+      dispatch({ type: "counter/Decrement" });
+      expect(errors).toEqual([
+        `DevTools dispatch failed: Component "counter" has no action "Decrement"`
+      ]);
+      expect(text("#counter")).toBe("11");
+    });
+
+    it("should show an error for input that is not an action", () => {
+      dispatch("Increment");
+      dispatch({ payload: {} });
+      expect(errors).toHaveLength(2);
+    });
+  });
+});
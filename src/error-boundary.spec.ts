@@ -0,0 +1,211 @@
+import { vi } from "vitest";
+import { _setTestKey, component, html, mount } from "./pure-ui-actions";
+const { div, button } = html;
+const testKey = _setTestKey({});
+
+describe("Error boundaries", () => {
+  type ChildComponent = {
+    State: { broken: boolean };
+    ActionPayloads: { Break: null; Throw: null; Increment: null };
+    TaskPayloads: { Load: null };
+  };
+
+  type BoundaryComponent = {
+    Props: { failOnError?: boolean };
+    State: { errors: string[]; retries: number };
+    ActionPayloads: { SetError: { message: string }; Retry: null };
+  };
+
+  let childAction: Function;
+  let childTask: Function;
+  let rootAction: Function;
+  let error: ReturnType<typeof vi.spyOn>;
+
+  const child = component<ChildComponent>(({ action, task }) => {
+    childAction = action;
+    childTask = task;
+    return {
+      state: () => ({ broken: false }),
+      actions: {
+        Break: (_, { state }) => ({ state: { ...state, broken: true } }),
+        Throw: () => {
+          throw Error("action failed");
+        },
+        Increment: (_, { state }) => ({ state })
+      },
+      tasks: {
+        Load: () => ({
+          perform: () => "data",
+          success: () => {
+            throw Error("success failed");
+          }
+        })
+      },
+      view: (id, { state }) => {
+        if (state.broken) throw Error("view failed");
+        return div(`#${id}`, "child");
+      }
+    };
+  });
+
+  const boundary = component<BoundaryComponent>(({ action }) => {
+    return {
+      state: () => ({ errors: [], retries: 0 }),
+      catch: {
+        view: (id, { error, state }) =>
+          div(`#${id}.fallback`, [
+            `${(error as Error).message} (${state.errors.length})`,
+            button({ on: { click: action("Retry") } }, "Retry")
+          ]),
+        onError: (err) => action("SetError", { message: (err as Error).message })
+      },
+      actions: {
+        SetError: ({ message }, { state, props }) => {
+          if (props.failOnError) throw Error("onError failed");
+          return { state: { ...state, errors: [...state.errors, message] } };
+        },
+        Retry: (_, { state }) => ({ state: { ...state, retries: state.retries + 1 } })
+      },
+      view: (id) => div(`#${id}`, [child("child", {})])
+    };
+  });
+
+  type RootComponent = {
+    Props: { initialBroken?: boolean; failOnError?: boolean };
+    State: { count: number };
+    ActionPayloads: { Increment: null };
+  };
+
+  const root = component<RootComponent>(({ action }) => {
+    rootAction = action;
+    return {
+      state: () => ({ count: 0 }),
+      catch: {
+        view: (id, { error }) => div(`#${id}.root-fallback`, (error as Error).message)
+      },
+      actions: {
+        Increment: (_, { state }) => ({ state: { ...state, count: state.count + 1 } })
+      },
+      view: (id, { props, state }) =>
+        div(`#${id}`, [
+          div(".count", String(state.count)),
+          boundary("boundary", { failOnError: props.failOnError })
+        ])
+    };
+  });
+
+  const boundaryText = (): string | null | undefined =>
+    document.getElementById("boundary")?.textContent;
+
+  beforeEach(() => {
+    document.body.innerHTML = `<div id="app"></div>`;
+    error = vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    error.mockRestore();
+  });
+
+  it("should render the fallback view when a descendant view throws", () => {
+    const { getComponentRegistry } = mount({ app: root, props: {} });
+    childAction("Break")(testKey);
+
+    expect(document.querySelector(".fallback")).not.toBeNull();
+    expect(boundaryText()).toBe("view failed (1)Retry");
+    expect(getComponentRegistry().has("child")).toBe(false);
+  });
+
+  it("should dispatch the error action", () => {
+    const { getComponentRegistry } = mount({ app: root, props: {} });
+    childAction("Break")(testKey);
+    expect(getComponentRegistry().get("boundary")?.state?.errors).toEqual(["view failed"]);
+  });
+
+  it("should catch errors thrown by action handlers", () => {
+    mount({ app: root, props: {} });
+    childAction("Throw")(testKey);
+    expect(boundaryText()).toBe("action failed (1)Retry");
+  });
+
+  it("should catch errors thrown by task callbacks", async () => {
+    mount({ app: root, props: {} });
+    await childTask("Load")(testKey);
+    expect(boundaryText()).toBe("success failed (1)Retry");
+  });
+
+  it("should log caught errors", () => {
+    mount({ app: root, props: {} });
+    childAction("Throw")(testKey);
+    expect(error).toHaveBeenCalledWith("#boundary caught error: action failed", expect.any(Error));
+  });
+
+  it("should render the view again once the boundary state changes", () => {
+    mount({ app: root, props: {} });
+    childAction("Throw")(testKey);
+    (document.querySelector(".fallback button") as HTMLElement).click();
+
+    expect(document.querySelector(".fallback")).toBeNull();
+    expect(document.getElementById("child")?.textContent).toBe("child");
+  });
+
+  it("should leave the rest of the app working", () => {
+    mount({ app: root, props: {} });
+    childAction("Break")(testKey);
+    rootAction("Increment")(testKey);
+
+    expect(document.querySelector(".count")?.textContent).toBe("1");
+    expect(document.querySelector(".fallback")).not.toBeNull();
+  });
+
+  it("should pass errors thrown by the error action to the next boundary", () => {
+    mount({ app: root, props: { failOnError: true } });
+    childAction("Throw")(testKey);
+    expect(document.querySelector(".root-fallback")?.textContent).toBe("onError failed");
+  });
+
+  it("should catch errors on the first render", () => {
+    const broken = component<{ Props: Record<string, never> }>(() => ({
+      view: () => {
+        throw Error("first render failed");
+      }
+    }));
+    const app = component(() => ({
+      catch: { view: (id, { error }) => div(`#${id}.fallback`, (error as Error).message) },
+      view: (id) => div(`#${id}`, [broken("broken", {})])
+    }));
+
+    const { getComponentRegistry } = mount({ app, props: {} });
+    expect(document.querySelector(".fallback")?.textContent).toBe("first render failed");
+    expect(getComponentRegistry().has("broken")).toBe(false);
+  });
+
+  describe("without a boundary", () => {
+    const plain = component<{
+      State: { count: number };
+      ActionPayloads: { Fail: null; Inc: null };
+    }>(({ action }) => {
+      rootAction = action;
+      return {
+        state: () => ({ count: 0 }),
+        actions: {
+          Fail: (_, { state }) => ({ state: { ...state, count: -1 } }),
+          Inc: (_, { state }) => ({ state: { ...state, count: state.count + 1 } })
+        },
+        view: (id, { state }) => {
+          if (state.count < 0) throw Error("view failed");
+          return div(`#${id}`, String(state.count));
+        }
+      };
+    });
+
+    it("should rethrow and restore render flags", () => {
+      const { getComponentRegistry } = mount({ app: plain, props: {} });
+      expect(() => rootAction("Fail")(testKey)).toThrow("view failed");
+
+      const instance = getComponentRegistry().get("app");
+      expect(instance?.inCurrentRender).toBe(false);
+      rootAction("Inc")(testKey);
+      expect(document.getElementById("app")?.textContent).toBe("0");
+    });
+  });
+});
@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { vi } from "vitest";
+import { createEventBus } from "./pure-ui-actions";
+
+describe("Event bus", () => {
+  type Events = {
+    CartUpdated: { count: number };
+    CartEmptied: undefined;
+  };
+
+  it("should run without a document", () => {
+    expect(typeof document).toBe("undefined");
+  });
+
+  it("should call listeners with the event detail", () => {
+    const bus = createEventBus<Events>();
+    const listener = vi.fn();
+    bus.subscribe("CartUpdated", listener);
+
+    bus.publish("CartUpdated", { count: 1 });
+    expect(listener).toHaveBeenCalledWith({ count: 1 });
+  });
+
+  it("should allow events without detail", () => {
+    const bus = createEventBus<Events>();
+    const listener = vi.fn();
+    bus.subscribe("CartEmptied", listener);
+
+    bus.publish("CartEmptied");
+    expect(listener).toHaveBeenCalledWith(undefined);
+  });
+
+  it("should only call listeners for the published type", () => {
+    const bus = createEventBus<Events>();
+    const listener = vi.fn();
+    bus.subscribe("CartEmptied", listener);
+
+    bus.publish("CartUpdated", { count: 1 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should stop calling listeners once unsubscribed", () => {
+    const bus = createEventBus<Events>();
+    const first = vi.fn();
+    const second = vi.fn();
+    const stop = bus.subscribe("CartUpdated", first);
+    bus.subscribe("CartUpdated", second);
+
+    stop();
+    bus.unsubscribe("CartUpdated", second);
+    bus.publish("CartUpdated", { count: 1 });
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it("should not call listeners added while publishing until the next event", () => {
+    const bus = createEventBus<Events>();
+    const added = vi.fn();
+    bus.subscribe("CartUpdated", () => bus.subscribe("CartUpdated", added));
+
+    bus.publish("CartUpdated", { count: 1 });
+    expect(added).not.toHaveBeenCalled();
+    bus.publish("CartUpdated", { count: 2 });
+    expect(added).toHaveBeenCalledWith({ count: 2 });
+  });
+
+  it("should keep buses separate", () => {
+    const bus = createEventBus<Events>();
+    const other = createEventBus<Events>();
+    const listener = vi.fn();
+    bus.subscribe("CartUpdated", listener);
+
+    other.publish("CartUpdated", { count: 1 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+/*
+Typed event bus that doesn't need a `document`, e.g. for Node, workers or tests
+- `const events = createEventBus<{ CartUpdated: { count: number } }>()`
+- `events.publish("CartUpdated", { count: 1 })`, and `events.subscribe` returns a function that unsubscribes
+- Components listen with a subscription, stopped when they are destroyed
+  `subscriptions: () => [events.listen("CartUpdated", "RefreshCart")]`
+*/
+import { EventDetailArgs, Subscription } from "./pure-ui-actions.types";
+
+export type EventBus<TEvents> = {
+  publish: <TType extends keyof TEvents>(
+    type: TType,
+    ...detail: EventDetailArgs<TEvents[TType]>
+  ) => void;
+  subscribe: <TType extends keyof TEvents>(
+    type: TType,
+    listener: (detail: TEvents[TType]) => void
+  ) => () => void;
+  unsubscribe: <TType extends keyof TEvents>(
+    type: TType,
+    listener: (detail: TEvents[TType]) => void
+  ) => void;
+  // Subscription dispatching `action` with the detail of each event of `type`
+  listen: <TType extends keyof TEvents, TActionName extends string>(
+    type: TType,
+    action: TActionName
+  ) => Subscription<TActionName>;
+};
+
+export function createEventBus<TEvents extends Record<string, unknown>>(): EventBus<TEvents> {
+  const listeners = new Map<keyof TEvents, Set<(detail: never) => void>>();
+
+  const bus: EventBus<TEvents> = {
+    publish(type, ...[detail]): void {
+      // Listeners added or removed by a listener take effect from the next event
+      Array.from(listeners.get(type) ?? []).forEach((listener) => listener(detail as never));
+    },
+
+    subscribe(type, listener): () => void {
+      const set = listeners.get(type) ?? new Set();
+      set.add(listener);
+      listeners.set(type, set);
+      return () => bus.unsubscribe(type, listener);
+    },
+
+    unsubscribe(type, listener): void {
+      const set = listeners.get(type);
+      set?.delete(listener);
+      if (set && !set.size) {
+        listeners.delete(type);
+      }
+    },
+
+    listen(type, action) {
+      return {
+        key: `bus:${String(type)}:${action}`,
+        action,
+        start: (emit) =>
+          bus.subscribe(type, (detail) => emit(detail as Record<string, unknown> | undefined))
+      };
+    }
+  };
+  return bus;
+}
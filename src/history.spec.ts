@@ -0,0 +1,187 @@
+import { vi } from "vitest";
+import {
+  _setTestKey,
+  component,
+  HistoryActionPayloads,
+  HistoryOptions,
+  html,
+  mount
+} from "./pure-ui-actions";
+const { button, div, span } = html;
+const testKey = _setTestKey({});
+
+describe("Undo and redo", () => {
+  type State = { text: string; count: number };
+  type EditorComponent = {
+    State: State;
+    ActionPayloads: HistoryActionPayloads & {
+      Type: { text: string };
+      Increment: null;
+      Select: null;
+    };
+  };
+
+  let history: HistoryOptions<keyof EditorComponent["ActionPayloads"], State> | undefined;
+  let editorAction: Function;
+
+  const editor = component<EditorComponent>(({ action }) => {
+    editorAction = (name: string, data?: unknown): void =>
+      (action as Function)(name, data)(testKey);
+    return {
+      state: () => ({ text: "", count: 0 }),
+      history,
+      actions: {
+        Type: ({ text }, { state }) => ({ state: { ...state, text: state.text + text } }),
+        Increment: (_, { state }) => ({ state: { ...state, count: state.count + 1 } }),
+        Select: (_, { state }) => ({ state })
+      },
+      view: (id, { state, canUndo, canRedo }) =>
+        div(`#${id}`, [
+          span(".text", state.text),
+          button(".undo", { attrs: { disabled: !canUndo } }, "Undo"),
+          button(".redo", { attrs: { disabled: !canRedo } }, "Redo")
+        ])
+    };
+  });
+
+  const text = (): string | null | undefined => document.querySelector(".text")?.textContent;
+  const disabled = (selector: string): boolean =>
+    Boolean(document.querySelector(selector)?.hasAttribute("disabled"));
+
+  beforeEach(() => {
+    history = {};
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  it("should undo and redo state changes", () => {
+    mount({ app: editor, props: {} });
+    editorAction("Type", { text: "a" });
+    editorAction("Type", { text: "b" });
+
+    editorAction("Undo");
+    expect(text()).toBe("a");
+    editorAction("Undo");
+    expect(text()).toBe("");
+    editorAction("Redo");
+    expect(text()).toBe("a");
+  });
+
+  it("should set canUndo and canRedo in the view context", () => {
+    mount({ app: editor, props: {} });
+    expect(disabled(".undo")).toBe(true);
+    expect(disabled(".redo")).toBe(true);
+
+    editorAction("Type", { text: "a" });
+    expect(disabled(".undo")).toBe(false);
+
+    editorAction("Undo");
+    expect(disabled(".undo")).toBe(true);
+    expect(disabled(".redo")).toBe(false);
+  });
+
+  it("should do nothing when there is nothing to undo or redo", () => {
+    const { getRootState } = mount({ app: editor, props: {} });
+    const state = getRootState();
+    editorAction("Undo");
+    editorAction("Redo");
+    expect(getRootState()).toBe(state);
+  });
+
+  it("should clear redo states after a new change", () => {
+    mount({ app: editor, props: {} });
+    editorAction("Type", { text: "a" });
+    editorAction("Undo");
+    editorAction("Type", { text: "b" });
+
+    expect(disabled(".redo")).toBe(true);
+    editorAction("Redo");
+    expect(text()).toBe("b");
+  });
+
+  it("should not record actions that leave state unchanged", () => {
+    mount({ app: editor, props: {} });
+    editorAction("Type", { text: "a" });
+    editorAction("Select");
+    editorAction("Undo");
+    expect(text()).toBe("");
+  });
+
+  it("should only record listed actions", () => {
+    history = { actions: ["Type"] };
+    const { getRootState } = mount({ app: editor, props: {} });
+    editorAction("Increment");
+    expect(disabled(".undo")).toBe(true);
+
+    editorAction("Type", { text: "a" });
+    editorAction("Undo");
+    expect(getRootState()).toEqual({ text: "", count: 1 });
+  });
+
+  it("should only restore listed keys", () => {
+    history = { actions: ["Type"], keys: ["text"] };
+    const { getRootState } = mount({ app: editor, props: {} });
+    editorAction("Type", { text: "a" });
+    editorAction("Increment");
+    editorAction("Undo");
+    expect(getRootState()).toEqual({ text: "", count: 1 });
+  });
+
+  it("should limit history to the configured depth", () => {
+    history = { depth: 2 };
+    mount({ app: editor, props: {} });
+    ["a", "b", "c"].forEach((t) => editorAction("Type", { text: t }));
+
+    editorAction("Undo");
+    editorAction("Undo");
+    editorAction("Undo");
+    expect(text()).toBe("a");
+  });
+
+  it("should not generate actions without a history config", () => {
+    history = undefined;
+    const { getRootState } = mount({ app: editor, props: {} });
+    editorAction("Type", { text: "a" });
+    editorAction("Undo");
+    expect(getRootState()?.text).toBe("a");
+  });
+
+  describe("grouping", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      history = { group: 500 };
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should undo rapid actions together", () => {
+      mount({ app: editor, props: {} });
+      editorAction("Type", { text: "a" });
+      vi.advanceTimersByTime(300);
+      editorAction("Type", { text: "b" });
+      vi.advanceTimersByTime(300);
+      editorAction("Type", { text: "c" });
+      vi.advanceTimersByTime(600);
+      editorAction("Type", { text: "d" });
+
+      editorAction("Undo");
+      expect(text()).toBe("abc");
+      editorAction("Undo");
+      expect(text()).toBe("");
+    });
+
+    it("should start a new group after an undo", () => {
+      mount({ app: editor, props: {} });
+      editorAction("Type", { text: "a" });
+      editorAction("Type", { text: "b" });
+      editorAction("Undo");
+      editorAction("Type", { text: "c" });
+
+      editorAction("Undo");
+      expect(text()).toBe("");
+      editorAction("Redo");
+      expect(text()).toBe("c");
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/*
+Undo and redo for components with a `history` config, e.g.
+`history: { actions: ["AddItem", "RemoveItem"], depth: 50, group: 500 }`
+- Generated `Undo` and `Redo` actions step through recorded states,
+  include `HistoryActionPayloads` in `ActionPayloads` to type them
+- Recorded actions within `group` ms of the previous one are undone together
+- The view context has `canUndo` and `canRedo`
+*/
+import { pickKeys } from "./persist";
+import { ActionHandler, ComponentInstance, HistoryStack } from "./pure-ui-actions.types";
+
+type State = Record<string, unknown>;
+
+const defaultDepth = 100;
+
+function getStack(instance: ComponentInstance): HistoryStack {
+  if (!instance.history) {
+    instance.history = { past: [], future: [] };
+  }
+  return instance.history;
+}
+
+// Returns the handler for a generated `Undo` or `Redo` action
+export function getHistoryAction(
+  instance: ComponentInstance,
+  actionName: string
+): ActionHandler<unknown, unknown, State, unknown> | undefined {
+  if (!instance.config.history) return;
+  if (actionName === "Undo") {
+    return (_, { state }) => ({ state: step(instance, state, "past", "future") });
+  }
+  if (actionName === "Redo") {
+    return (_, { state }) => ({ state: step(instance, state, "future", "past") });
+  }
+}
+
+// Moves the current state onto one stack, and returns the state from the other
+function step(
+  instance: ComponentInstance,
+  state: State,
+  from: "past" | "future",
+  to: "past" | "future"
+): State {
+  const stack = getStack(instance);
+  const target = stack[from].pop();
+  if (!target) return state;
+
+  stack[to].push(state);
+  // The next action starts a new group
+  stack.lastTime = undefined;
+  const { keys } = instance.config.history ?? {};
+  return keys ? { ...state, ...pickKeys(target, keys) } : target;
+}
+
+// Records the state before an action, clearing states that could be redone
+export function recordHistory(
+  instance: ComponentInstance,
+  prevState: State | undefined,
+  actionName: string,
+  time = Date.now()
+): void {
+  const options = instance.config.history;
+  if (
+    !options ||
+    !prevState ||
+    actionName === "Undo" ||
+    actionName === "Redo" ||
+    (options.actions && !options.actions.includes(actionName))
+  ) {
+    return;
+  }
+  const stack = getStack(instance);
+  const { depth = defaultDepth, group } = options;
+  const grouped =
+    group !== undefined && stack.lastTime !== undefined && time - stack.lastTime < group;
+
+  if (!grouped) {
+    stack.past.push(prevState);
+    if (stack.past.length > depth) {
+      stack.past.shift();
+    }
+  }
+  stack.future = [];
+  stack.lastTime = time;
+}
+
+export function getHistoryContext(instance: ComponentInstance): {
+  canUndo?: boolean;
+  canRedo?: boolean;
+} {
+  if (!instance.config.history) return {};
+  return {
+    canUndo: Boolean(instance.history?.past.length),
+    canRedo: Boolean(instance.history?.future.length)
+  };
+}
@@ -0,0 +1,236 @@
+import { vi } from "vitest";
+import {
+  _setTestKey,
+  component,
+  html,
+  memo,
+  mount,
+  renderToString,
+  setHook,
+  VNode
+} from "./pure-ui-actions";
+const { div, span, input, button, ul, li } = html;
+const testKey = _setTestKey({});
+
+describe("mount with hydrate", () => {
+  type AppComponent = {
+    Props: { start: number };
+    State: { count: number; text: string; ready: boolean };
+    ActionPayloads: { Increment: null; Input: null; Ready: null };
+  };
+
+  let stateInit: ReturnType<typeof vi.fn>;
+  let inserted: Element[];
+  let appAction: Function;
+
+  const renderItems = (count: number): VNode =>
+    ul(
+      ".items",
+      Array.from({ length: count }, (_, i) => li({ key: i }, `Item ${i}`))
+    );
+
+  const app = component<AppComponent>(({ action }) => {
+    appAction = action;
+    return {
+      state: (props) => {
+        stateInit(props);
+        return { count: props.start, text: "", ready: false };
+      },
+      init: action("Ready"),
+      actions: {
+        Increment: (_, { state }) => ({ state: { ...state, count: state.count + 1 } }),
+        Input: (_, { state, event }) => ({
+          state: { ...state, text: (event?.target as HTMLInputElement).value }
+        }),
+        Ready: (_, { state }) => ({ state: { ...state, ready: true } })
+      },
+      view: (id, { state }) => {
+        const field = input(`#${id}-field`, {
+          props: { value: state.text },
+          on: { input: action("Input") }
+        });
+        setHook(field, "insert", (vnode?: unknown) => {
+          inserted.push((vnode as VNode).elm as Element);
+        });
+        return div(`#${id}.app`, { class: { ready: state.ready } }, [
+          span(".count", String(state.count)),
+          button({ on: { click: action("Increment") } }, "+"),
+          field,
+          memo("ul.items", "items", renderItems, [state.count])
+        ]);
+      }
+    };
+  });
+
+  function serverRender(start: number): void {
+    document.body.innerHTML = renderToString(app, { start }, { includeState: true });
+  }
+
+  beforeEach(() => {
+    stateInit = vi.fn();
+    inserted = [];
+  });
+
+  it("should embed initial state after the markup", () => {
+    serverRender(2);
+    const script = document.getElementById("app-state");
+    expect(script?.getAttribute("type")).toBe("application/json");
+    expect(JSON.parse(script?.textContent ?? "")).toEqual({
+      app: { count: 2, text: "", ready: false }
+    });
+  });
+
+  it("should adopt existing DOM nodes", () => {
+    serverRender(2);
+    const root = document.getElementById("app");
+    const field = document.getElementById("app-field");
+    const items = document.querySelector(".items");
+
+    mount({ app, props: { start: 2 }, hydrate: true });
+
+    expect(document.getElementById("app")).toBe(root);
+    expect(document.getElementById("app-field")).toBe(field);
+    expect(document.querySelector(".items")).toBe(items);
+    expect(root?.className).toBe("app ready");
+  });
+
+  it("should keep focus on an adopted input", () => {
+    serverRender(2);
+    const field = document.getElementById("app-field") as HTMLInputElement;
+    field.focus();
+
+    mount({ app, props: { start: 2 }, hydrate: true });
+    expect(document.activeElement).toBe(field);
+  });
+
+  it("should attach event listeners", () => {
+    serverRender(2);
+    mount({ app, props: { start: 2 }, hydrate: true });
+
+    (document.querySelector("button") as HTMLElement).click();
+    expect(document.querySelector(".count")?.textContent).toBe("3");
+    expect(document.querySelectorAll(".items li").length).toBe(3);
+  });
+
+  it("should run insert hooks for adopted nodes", () => {
+    serverRender(2);
+    mount({ app, props: { start: 2 }, hydrate: true });
+
+    expect(inserted).toEqual([document.getElementById("app-field")]);
+  });
+
+  it("should restore state instead of running the state initialiser", () => {
+    serverRender(2);
+    stateInit.mockClear();
+
+    // Different props on the client show that state comes from the server
+    mount({ app, props: { start: 5 }, hydrate: true });
+
+    expect(stateInit).not.toHaveBeenCalled();
+    expect(document.querySelector(".count")?.textContent).toBe("2");
+  });
+
+  it("should compute state when none was embedded", () => {
+    document.body.innerHTML = renderToString(app, { start: 2 });
+    stateInit.mockClear();
+    mount({ app, props: { start: 2 }, hydrate: true });
+
+    expect(stateInit).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only restore state for the first render", () => {
+    serverRender(2);
+    const { getComponentRegistry } = mount({ app, props: { start: 2 }, hydrate: true });
+    appAction("Increment")(testKey);
+
+    expect(getComponentRegistry().get("app")?.state).toEqual({
+      count: 3,
+      text: "",
+      ready: true
+    });
+  });
+
+  describe("mismatches", () => {
+    let warn: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    it("should not warn when markup matches", () => {
+      serverRender(2);
+      mount({ app, props: { start: 2 }, hydrate: true });
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it("should warn and correct mismatched text", () => {
+      serverRender(2);
+      (document.querySelector(".count") as HTMLElement).textContent = "9";
+      mount({ app, props: { start: 2 }, hydrate: true });
+
+      expect(warn).toHaveBeenCalledWith(
+        'Hydration mismatch at div#app.app > span.count: expected text "2", found "9"'
+      );
+      expect(document.querySelector(".count")?.textContent).toBe("2");
+    });
+
+    it("should warn and replace mismatched elements", () => {
+      serverRender(2);
+      const count = document.querySelector(".count") as HTMLElement;
+      count.replaceWith(document.createElement("p"));
+      mount({ app, props: { start: 2 }, hydrate: true });
+
+      expect(warn).toHaveBeenCalledWith(
+        "Hydration mismatch at div#app.app > span.count: expected <span.count>"
+      );
+      expect(document.querySelector("p")).toBeNull();
+      expect(document.querySelector(".count")?.textContent).toBe("2");
+    });
+
+    it("should warn when the number of children differs", () => {
+      serverRender(2);
+      document.getElementById("app")?.appendChild(document.createElement("footer"));
+      mount({ app, props: { start: 2 }, hydrate: true });
+
+      expect(warn).toHaveBeenCalledWith(
+        "Hydration mismatch at div#app.app: expected 4 children, found 5"
+      );
+      expect(document.querySelector("footer")).toBeNull();
+    });
+
+    it("should warn and remove classes and attributes the render doesn't set", () => {
+      serverRender(2);
+      const root = document.getElementById("app") as HTMLElement;
+      root.classList.add("light");
+      root.querySelector("button")?.setAttribute("disabled", "");
+      mount({ app, props: { start: 2 }, hydrate: true });
+
+      expect(warn).toHaveBeenCalledWith(
+        'Hydration mismatch at div#app.app: expected classes "app ready", found "app ready light"'
+      );
+      expect(warn).toHaveBeenCalledWith(
+        'Hydration mismatch at div#app.app > button: unexpected attribute disabled=""'
+      );
+      expect(root.className).toBe("app ready");
+      expect(root.querySelector("button")?.hasAttribute("disabled")).toBe(false);
+    });
+
+    it("should warn and correct attribute values", () => {
+      const field = component<{ State: { type: string } }>(() => ({
+        state: () => ({ type: "search" }),
+        view: (id, { state }) => input(`#${id}`, { attrs: { type: state.type } })
+      }));
+      document.body.innerHTML = renderToString(field, {}).replace("search", "text");
+      mount({ app: field, props: {}, hydrate: true });
+
+      expect(warn).toHaveBeenCalledWith(
+        'Hydration mismatch at input#app: expected attribute type="search", found "text"'
+      );
+      expect(document.getElementById("app")?.getAttribute("type")).toBe("search");
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/*
+Hydration of server-rendered markup
+Builds a VNode tree over the existing DOM so that `patch` adopts matching nodes instead of
+recreating them, then runs the `create` and `insert` hooks that patching existing nodes skips
+*/
+import { parseSelector, patch, VNode } from "./vdom";
+import { log } from "./log";
+import { propAttrNames, toAttrValue } from "./to-html";
+
+type HookedVNode = VNode & { data: NonNullable<VNode["data"]> };
+
+export function hydrate(element: Element, vnode: VNode): void {
+  const hooked: HookedVNode[] = [];
+  patch(adopt(element, vnode, vnode.sel ?? "", hooked), vnode);
+
+  // Hooks run children first, as when snabbdom creates elements
+  const emptyNode = createVNode("", {}, [], undefined, undefined);
+  hooked.forEach((v) => v.data.hook?.create?.(emptyNode, v));
+  hooked.forEach((v) => v.data.hook?.insert?.(v));
+}
+
+// Returns a VNode for the existing `node`, matching `vnode` where the markup agrees
+function adopt(node: Node, vnode: VNode, path: string, hooked: HookedVNode[]): VNode {
+  // `memo` (snabbdom thunk) nodes render their content in an init hook, which patching
+  // existing nodes skips, so render it here in the same way
+  const data = vnode.data as
+    | (VNode["data"] & { fn?: (...args: unknown[]) => VNode; args?: unknown[] })
+    | undefined;
+  if (data?.fn && data.args) {
+    const rendered = data.fn(...data.args);
+    vnode.data = { ...rendered.data, fn: data.fn, args: data.args } as VNode["data"];
+    vnode.children = rendered.children;
+    vnode.text = rendered.text;
+  }
+
+  if (vnode.sel === undefined || vnode.sel === "") {
+    if (node.nodeType !== Node.TEXT_NODE) {
+      log.hydrationMismatch(path, `expected text "${vnode.text}"`);
+      return toForeignVNode(node);
+    }
+    if (node.textContent !== vnode.text) {
+      log.hydrationMismatch(path, `expected text "${vnode.text}", found "${node.textContent}"`);
+    }
+    return createVNode(undefined, undefined, undefined, node.textContent ?? "", node);
+  }
+
+  const { tag, id } = parseSelector(vnode.sel);
+  const element = node as Element;
+  if (
+    node.nodeType !== Node.ELEMENT_NODE ||
+    element.tagName.toLowerCase() !== tag ||
+    (id !== undefined && element.id !== id)
+  ) {
+    log.hydrationMismatch(path, `expected <${vnode.sel}>`);
+    return toForeignVNode(node);
+  }
+
+  let children: VNode[] | undefined;
+  let text: string | undefined;
+  if (vnode.children) {
+    const childNodes = Array.from(node.childNodes);
+    if (childNodes.length !== vnode.children.length) {
+      log.hydrationMismatch(
+        path,
+        `expected ${vnode.children.length} children, found ${childNodes.length}`
+      );
+    }
+    children = childNodes.map((childNode, i) => {
+      const child = vnode.children?.[i];
+      return child && typeof child === "object"
+        ? adopt(childNode, child, `${path} > ${child.sel ?? "#text"}`, hooked)
+        : toForeignVNode(childNode);
+    });
+  } else if (vnode.text !== undefined) {
+    text = node.textContent ?? "";
+    if (text !== vnode.text) {
+      log.hydrationMismatch(path, `expected text "${vnode.text}", found "${text}"`);
+    }
+  }
+
+  if (vnode.data?.hook?.create || vnode.data?.hook?.insert) {
+    hooked.push(vnode as HookedVNode);
+  }
+  // Matching `sel` and `key` lets `patch` reuse the element
+  return createVNode(
+    vnode.sel,
+    { key: vnode.key, ...readAttributes(element, vnode, path) },
+    children,
+    text,
+    node
+  );
+}
+
+// Classes and attributes of the existing element, so that `patch` removes those the first
+// render doesn't set, as it would for a VNode it rendered
+function readAttributes(
+  element: Element,
+  vnode: VNode,
+  path: string
+): Pick<NonNullable<VNode["data"]>, "class" | "attrs"> {
+  const data = vnode.data ?? {};
+  const newAttrs = data.attrs ?? {};
+  const { classes: selClasses } = parseSelector(vnode.sel ?? "");
+
+  // `id` and `class` are set from the selector and class module unless given as attributes,
+  // and attributes written for props are left to the props module
+  const propAttrs = new Set(Object.keys(data.props ?? {}).map((key) => propAttrNames[key] ?? key));
+  const isAttr = (name: string): boolean =>
+    name in newAttrs || (name !== "id" && name !== "class" && !propAttrs.has(name));
+
+  const attrs: Record<string, string> = {};
+  Array.from(element.attributes).forEach(({ name, value }) => {
+    if (isAttr(name)) {
+      attrs[name] = value;
+    }
+  });
+  Array.from(new Set([...Object.keys(attrs), ...Object.keys(newAttrs)]))
+    .filter(isAttr)
+    .forEach((name) => {
+      const expected = toAttrValue(newAttrs[name]);
+      if (expected === undefined && name in attrs) {
+        log.hydrationMismatch(path, `unexpected attribute ${name}="${attrs[name]}"`);
+      } else if (expected !== undefined && expected !== attrs[name]) {
+        log.hydrationMismatch(
+          path,
+          name in attrs
+            ? `expected attribute ${name}="${expected}", found "${attrs[name]}"`
+            : `expected attribute ${name}="${expected}"`
+        );
+      }
+    });
+
+  // Classes set with a `class` attribute or `className` prop are diffed by those modules
+  if ("class" in newAttrs || "className" in (data.props ?? {})) {
+    return { attrs };
+  }
+  const found = Array.from(element.classList);
+  const expected = [
+    ...selClasses,
+    ...Object.keys(data.class ?? {}).filter(
+      (name) => data.class?.[name] && !selClasses.includes(name)
+    )
+  ];
+  if (found.length !== expected.length || found.some((name) => !expected.includes(name))) {
+    log.hydrationMismatch(
+      path,
+      `expected classes "${expected.join(" ")}", found "${found.join(" ")}"`
+    );
+  }
+  const classes: Record<string, boolean> = {};
+  found
+    .filter((name) => !selClasses.includes(name))
+    .forEach((name) => {
+      classes[name] = true;
+    });
+  return { class: classes, attrs };
+}
+
+// A VNode that never matches, so `patch` replaces the node
+function toForeignVNode(node: Node): VNode {
+  return createVNode("!hydration-mismatch", {}, undefined, undefined, node);
+}
+
+function createVNode(
+  sel: string | undefined,
+  data: VNode["data"],
+  children: VNode[] | undefined,
+  text: string | undefined,
+  elm: Node | undefined
+): VNode {
+  return { sel, data, children, text, elm, key: data?.key };
+}
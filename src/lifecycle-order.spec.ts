@@ -427,8 +427,8 @@ describe("Lifecycle and Data Flow", () => {
     logSpies = {
       setStateGlobal: vi.spyOn(log, "setStateGlobal"),
       noInitialAction: vi.spyOn(log, "noInitialAction"),
-      updateStart: vi.spyOn(log, "updateStart"),
-      updateEnd: vi.spyOn(log, "updateEnd"),
+      actionStart: vi.spyOn(log, "actionStart"),
+      actionEnd: vi.spyOn(log, "actionEnd"),
       taskPerform: vi.spyOn(log, "taskPerform"),
       taskSuccess: vi.spyOn(log, "taskSuccess"),
       taskFailure: vi.spyOn(log, "taskFailure"),
@@ -871,7 +871,7 @@ describe("Lifecycle and Data Flow", () => {
   });
 
   describe("Logging Accuracy", () => {
-    it("should call log.updateStart with correct oldState and newState", async () => {
+    it("should call log.actionStart and log.actionEnd for each action", async () => {
       const rootComponent = createRootComponent();
 
       mount({
@@ -881,12 +881,13 @@ describe("Lifecycle and Data Flow", () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      // log.updateStart should be called for each action
-      expect(logSpies.updateStart).toHaveBeenCalled();
+      // log.actionStart and log.actionEnd should be called for each action
+      expect(logSpies.actionStart).toHaveBeenCalled();
+      expect(logSpies.actionEnd).toHaveBeenCalledTimes(logSpies.actionStart.mock.calls.length);
 
       // Verify it was called with component id and action names
-      const calls = logSpies.updateStart.mock.calls;
-      const actionNames = calls.map((call: any[]) => call[2]);
+      const calls = logSpies.actionEnd.mock.calls;
+      const actionNames = calls.map((call: any[]) => call[1]);
 
       expect(actionNames).toContain("Step1_InitAction");
       expect(actionNames).toContain("Step2_HandleSyncSuccess");
@@ -844,4 +844,169 @@ describe("Component Lifecycle & State Management", () => {
       ]);
     });
   });
+
+  describe("Mount and Destroy", () => {
+    type ChildComponent = {
+      State: { count: number };
+      ActionPayloads: { Mounted: null; Destroyed: null; Increment: null };
+      TaskPayloads: { Measure: null; Release: null };
+    };
+
+    let events: string[];
+    let childAction: Function;
+    let parentAction: Function;
+    let releaseSignal: AbortSignal | undefined;
+
+    const child = component<ChildComponent>(({ action, task }) => {
+      childAction = action;
+      return {
+        state: () => ({ count: 0 }),
+        onMount: [action("Mounted"), task("Measure")],
+        onDestroy: [action("Destroyed"), task("Release")],
+        actions: {
+          Mounted: (_, { state }) => {
+            events.push("mounted");
+            return { state };
+          },
+          Destroyed: (_, { state }) => {
+            events.push(`destroyed ${getComponentRegistry().has("child")}`);
+            return { state };
+          },
+          Increment: (_, { state }) => ({ state: { ...state, count: state.count + 1 } })
+        },
+        tasks: {
+          Measure: (_, { element }) => ({
+            perform: () =>
+              events.push(`measure ${element?.id} ${element?.isConnected} ${element?.textContent}`)
+          }),
+          Release: (_, { element }) => ({
+            perform: (signal) => {
+              releaseSignal = signal;
+              events.push(`release ${element?.id}`);
+            }
+          })
+        },
+        view: (id, { state }) => div(`#${id}`, String(state.count))
+      };
+    });
+
+    const parent = component<{ State: { show: boolean }; ActionPayloads: { Toggle: null } }>(
+      ({ action }) => {
+        parentAction = action;
+        return {
+          state: () => ({ show: true }),
+          actions: {
+            Toggle: (_, { state }) => ({ state: { ...state, show: !state.show } })
+          },
+          view: (id, { state }) => div(`#${id}`, [state.show ? child("child", {}) : div("empty")])
+        };
+      }
+    );
+
+    beforeEach(() => {
+      events = [];
+      releaseSignal = undefined;
+    });
+
+    it("should run onMount after the element is inserted", () => {
+      mount({ app: parent, props: {} });
+      expect(events).toEqual(["mounted", "measure child true 0"]);
+    });
+
+    it("should run onMount once", () => {
+      mount({ app: parent, props: {} });
+      childAction("Increment")(testKey);
+      expect(events).toEqual(["mounted", "measure child true 0"]);
+    });
+
+    it("should run onMount for components added by later renders", () => {
+      mount({ app: parent, props: {} });
+      parentAction("Toggle")(testKey);
+      events = [];
+      parentAction("Toggle")(testKey);
+      expect(events).toEqual(["mounted", "measure child true 0"]);
+    });
+
+    it("should run onMount for a root patched in place", () => {
+      const onMount = vi.fn();
+      const root = component<{ TaskPayloads: { Mounted: null } }>(({ task }) => ({
+        onMount: task("Mounted"),
+        tasks: {
+          Mounted: (_, { element }) => ({
+            perform: () => onMount(element)
+          })
+        },
+        view: (id) => div(`#${id}`)
+      }));
+
+      mount({ app: root, props: {} });
+      expect(onMount).toHaveBeenCalledWith(document.getElementById("app"));
+    });
+
+    it("should pass the element to task success but not to actions", async () => {
+      const onSuccess = vi.fn();
+      const onAction = vi.fn();
+      const root = component<{ ActionPayloads: { Done: null }; TaskPayloads: { Load: null } }>(
+        ({ action, task }) => ({
+          onMount: task("Load"),
+          actions: {
+            Done: (_, ctx) => {
+              onAction(ctx);
+              return { state: ctx.state };
+            }
+          },
+          tasks: {
+            Load: () => ({
+              perform: () => Promise.resolve(),
+              success: (_, { element }) => {
+                onSuccess(element);
+                return action("Done");
+              }
+            })
+          },
+          view: (id) => div(`#${id}`)
+        })
+      );
+
+      mount({ app: root, props: {} });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(onSuccess).toHaveBeenCalledWith(document.getElementById("app"));
+      expect(onAction.mock.calls[0][0]).not.toHaveProperty("element");
+    });
+
+    it("should run onDestroy before the component leaves the registry", () => {
+      mount({ app: parent, props: {} });
+      events = [];
+      parentAction("Toggle")(testKey);
+
+      expect(events).toEqual(["destroyed true", "release child"]);
+      expect(getComponentRegistry().has("child")).toBe(false);
+    });
+
+    it("should abort tasks started by onDestroy", () => {
+      mount({ app: parent, props: {} });
+      parentAction("Toggle")(testKey);
+      expect(releaseSignal?.aborted).toBe(true);
+    });
+
+    it("should run onDestroy on unmount", () => {
+      const { unmount } = mount({ app: parent, props: {} });
+      events = [];
+      unmount();
+      expect(events).toEqual(["destroyed true", "release child"]);
+    });
+
+    it("should log mount and destroy with the element", () => {
+      const mountSpy = vi.spyOn(log, "mount");
+      const destroySpy = vi.spyOn(log, "destroy");
+      mount({ app: parent, props: {} });
+      const element = document.getElementById("child");
+      parentAction("Toggle")(testKey);
+
+      expect(mountSpy).toHaveBeenCalledWith("child", element);
+      expect(destroySpy).toHaveBeenCalledWith("child", element);
+      mountSpy.mockRestore();
+      destroySpy.mockRestore();
+    });
+  });
 });
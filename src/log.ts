@@ -1,7 +1,50 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /*
-Logging for pure-ui-actions lifecycle with Redux DevTools integration
+Logging for pure-ui-actions lifecycle, as a stream of typed events passed to each logger
+- By default events are sent to Redux DevTools when the extension is installed, and to the console
+  with `?debug=console`, otherwise only errors and warnings are shown
+- `setLogger(...loggers)` replaces the loggers, e.g. `setLogger(telemetry)` to disable console output
+- `addLogger(logger)` adds a logger, returning a function that removes it
 */
+type State = Record<string, unknown> | null;
+
+export type LogEvent =
+  // A component created without an init action
+  | { type: "initialState"; id: string; state?: State }
+  | {
+      type: "actionStart";
+      id: string;
+      action: string;
+      data?: Record<string, unknown>;
+      state?: State;
+    }
+  | {
+      type: "actionEnd";
+      id: string;
+      action: string;
+      data?: Record<string, unknown>;
+      prevState?: State;
+      state?: State;
+      changed: boolean;
+    }
+  | { type: "taskPerform"; id: string; task: string; isPromise: boolean }
+  | { type: "taskSuccess"; id: string; task: string }
+  | { type: "taskFailure"; id: string; task: string; error: unknown }
+  | { type: "taskAbort"; id: string; task: string }
+  | { type: "taskDrop"; id: string; task: string }
+  | { type: "subscriptionStart"; id: string; key: string }
+  | { type: "subscriptionStop"; id: string; key: string }
+  | { type: "render"; id: string; props?: Record<string, unknown> | null }
+  | { type: "patch" }
+  | { type: "mount"; id: string; element?: Element }
+  | { type: "destroy"; id: string; element?: Element }
+  // An app removed by `unmount`
+  | { type: "unmount"; id: string }
+  | { type: "caughtError"; id: string; error: unknown }
+  | { type: "hydrationMismatch"; path: string; message: string };
+
+export type Logger = (event: LogEvent) => void;
+
 let groupId = "";
 
 // Logging controls based on URL query parameters
@@ -9,15 +52,28 @@ const searchParams =
   typeof window !== "undefined" ? new URLSearchParams(window.location.search) : null;
 const logToConsole = searchParams?.get("debug") === "console"; // Enable with ?debug=console
 
-const logEnabled = logToConsole;
-
 // Redux DevTools integration
 interface DevToolsConnection {
   init(state: unknown): void;
   send(action: { type: string; [key: string]: any }, state: unknown): void;
+  subscribe(listener: (message: DevToolsMessage) => void): unknown;
 }
 
+interface DevToolsMessage {
+  type: string;
+  // Monitor commands for "DISPATCH", or the action entered in the dispatcher for "ACTION"
+  payload?: any;
+  state?: string;
+}
+
+type JumpHandler = (state: Record<string, Record<string, unknown> | undefined>) => void;
+
+// Runs `<componentId>/<ActionName>` with `payload` as data, throwing if it can't be found
+type DispatchHandler = (type: string, payload?: Record<string, unknown>) => void;
+
 let devToolsConnection: DevToolsConnection | null = null;
+let jumpHandler: JumpHandler | undefined;
+let dispatchHandler: DispatchHandler | undefined;
 
 // Initialize Redux DevTools connection (if extension is active)
 if (typeof window !== "undefined") {
@@ -26,10 +82,10 @@ if (typeof window !== "undefined") {
     devToolsConnection = devToolsExtension.connect({
       name: "pure-ui-actions App",
       features: {
-        jump: false, // Disable time travel
+        jump: true, // Time travel, see `onJump`
         skip: false, // Disable skip
         reorder: false, // Disable reorder
-        dispatch: false, // Disable dispatch
+        dispatch: true, // Run component actions, see `onDispatch`
         persist: false // Disable persist
       }
     });
@@ -37,10 +93,53 @@ if (typeof window !== "undefined") {
     // Initialize with empty state
     if (devToolsConnection) {
       devToolsConnection.init({});
+      devToolsConnection.subscribe(receive);
     }
   }
 }
 
+// Handle messages from the DevTools monitor
+function receive(message: DevToolsMessage): void {
+  if (message.type === "ACTION" && dispatchHandler) {
+    dispatch(message.payload, dispatchHandler);
+    return;
+  }
+  const type = message.type === "DISPATCH" ? message.payload?.type : undefined;
+  if ((type === "JUMP_TO_STATE" || type === "JUMP_TO_ACTION") && message.state && jumpHandler) {
+    // Restoring a past state is not a new action, so nothing is sent while it renders
+    const connection = devToolsConnection;
+    devToolsConnection = null;
+    try {
+      jumpHandler(JSON.parse(message.state));
+    } finally {
+      devToolsConnection = connection;
+    }
+  }
+}
+
+// Actions entered in the dispatcher as JSON, e.g. `{ "type": "counter-0/Increment" }`
+function dispatch(input: unknown, handler: DispatchHandler): void {
+  try {
+    const action = typeof input === "string" ? JSON.parse(input) : input;
+    if (!action || typeof action.type !== "string") {
+      throw Error(`Expected an action like { "type": "<componentId>/<ActionName>" }`);
+    }
+    handler(action.type, action.payload ?? undefined);
+  } catch (err) {
+    const message = getMessage(err);
+    devToolsConnection?.send(
+      {
+        type: "[Dispatch error]",
+        payload: { error: message },
+        meta: { isError: true }
+      },
+      getAggregatedState()
+    );
+    // Always shown, so a mistyped action doesn't fail silently
+    console.error(`DevTools dispatch failed: ${message}`);
+  }
+}
+
 // Helper to get aggregated state for DevTools
 function getAggregatedState(): Record<string, any> {
   const win = window as any;
@@ -48,198 +147,330 @@ function getAggregatedState(): Record<string, any> {
   return { ...(win.state || {}) };
 }
 
-export const log = {
-  setStateGlobal(id: string, state: object | undefined | null): void {
-    // Maintain global state registry (DevTools and logging rely on this)
-    // Called after actions update state and during render lifecycle
-    const win = window as unknown as { state: Record<string, object | undefined | null> };
-    const stateGlobal = win.state || (win.state = {});
-
-    if (state === undefined || state === null) {
-      delete stateGlobal[id];
-    } else {
-      stateGlobal[id] = state;
-    }
+// Sends lifecycle events to Redux DevTools, when the extension is installed
+export const devToolsLogger: Logger = (event) => {
+  if (!devToolsConnection) return;
 
-    // Note: State updates are sent to DevTools by updateStart, not here
-    // This just maintains window.state for getAggregatedState() to read
-  },
-  noInitialAction(id: string, state?: Record<string, unknown> | null): void {
-    // Send initial mount to Redux DevTools
-    if (devToolsConnection && state) {
-      // Build aggregated state with the initial state for this component
+  switch (event.type) {
+    case "initialState": {
+      // Send initial mount with the initial state for this component
+      if (!event.state) return;
       const aggregatedState = getAggregatedState();
-      aggregatedState[id] = state;
-
+      aggregatedState[event.id] = event.state;
       devToolsConnection.send(
-        {
-          type: `${id}/[Mount]`,
-          meta: { lifecycle: true }
-        },
+        { type: `${event.id}/[Mount]`, meta: { lifecycle: true } },
         aggregatedState
       );
+      return;
     }
-
-    // Console logging
-    if (logEnabled) {
-      console.group(`%c#${id}`, "color: #69f");
-      if (state) {
-        console.log(`${JSON.stringify(state)}`);
-      }
-      groupId = id;
-    }
-  },
-  updateStart(
-    id: string,
-    state: Record<string, unknown> | undefined | null,
-    label: string,
-    data?: Record<string, unknown>,
-    newState?: Record<string, unknown> | null
-  ): void {
-    // Send to Redux DevTools with current state
-    if (devToolsConnection && newState !== undefined) {
+    case "actionEnd": {
+      if (event.state === undefined) return;
       // Update window.state FIRST so subsequent getAggregatedState() calls are accurate
       const win = window as unknown as { state: Record<string, object | undefined | null> };
       const stateGlobal = win.state || (win.state = {});
-      stateGlobal[id] = newState;
-
-      // Build aggregated state with the NEW state for this component
-      const aggregatedState = getAggregatedState();
+      stateGlobal[event.id] = event.state;
 
+      devToolsConnection.send(
+        { type: `${event.id}/${event.action}`, payload: event.data || null },
+        getAggregatedState()
+      );
+      return;
+    }
+    case "taskPerform":
       devToolsConnection.send(
         {
-          type: `${id}/${label}`,
-          payload: data || null
+          type: `${event.id}/[Task] ${event.task}/start`,
+          meta: { isTask: true, status: "start", isPromise: event.isPromise }
         },
-        aggregatedState
+        getAggregatedState()
       );
-    }
-
-    // Console logging
-    if (logEnabled) {
-      if (!groupId || groupId !== id) {
-        console.group(`%c#${id}`, "color: #69f");
-        groupId = id;
-      }
-      if (state) {
-        console.log(`%c${JSON.stringify(state)}`, "text-decoration: line-through;");
-      }
-      let msg = `${String(label)}`;
-      if (data) {
-        msg += ` ${JSON.stringify(data)}`;
-      }
-      console.log(`%c${msg}`, "color: #f6b");
-      if (!state) {
-        console.log(`No change`);
-      }
-    }
-  },
-  updateEnd(state: Record<string, unknown>): void {
-    // Note: updateEnd is informational only - state already sent in updateStart
-    // Console logging
-    if (logEnabled && state) {
-      console.log(`${JSON.stringify(state)}`);
-    }
-  },
-  taskPerform(id: string, label: string, isPromise: boolean): void {
-    // Send task start to Redux DevTools
-    if (devToolsConnection) {
+      return;
+    case "taskFailure":
       devToolsConnection.send(
         {
-          type: `${id}/[Task] ${label}/start`,
-          meta: { isTask: true, status: "start", isPromise }
+          type: `${event.id}/[Task] ${event.task}/failure`,
+          payload: { error: getMessage(event.error) },
+          meta: { isTask: true, status: "failure" }
         },
         getAggregatedState()
       );
+      return;
+    case "taskSuccess":
+    case "taskAbort":
+    case "taskDrop": {
+      const status = event.type.slice(4).toLowerCase();
+      devToolsConnection.send(
+        { type: `${event.id}/[Task] ${event.task}/${status}`, meta: { isTask: true, status } },
+        getAggregatedState()
+      );
+      return;
     }
-
-    // Console logging
-    if (logEnabled) {
-      console.log(`%cTask "${label}" perform${isPromise ? "..." : "ed"}`, "color: #dd8");
-    }
-  },
-  taskSuccess(id: string, label: string): void {
-    // Send to Redux DevTools
-    if (devToolsConnection) {
+    case "subscriptionStart":
+    case "subscriptionStop": {
+      const status = event.type === "subscriptionStart" ? "start" : "stop";
       devToolsConnection.send(
         {
-          type: `${id}/[Task] ${label}/success`,
-          meta: { isTask: true, status: "success" }
+          type: `${event.id}/[Subscription] ${event.key}/${status}`,
+          meta: { isSubscription: true, status }
         },
         getAggregatedState()
       );
+      return;
     }
-
-    // Console logging
-    if (logEnabled) {
-      console.log(`%c\n...#${id} task "${label}" success`, "color: #dd8");
-    }
-  },
-  taskFailure(id: string, label: string, err: unknown): void {
-    // Send to Redux DevTools
-    if (devToolsConnection) {
+    case "patch":
+      // Sent after the VDOM patch completes, when destroy hooks have run and window.state is clean
+      // ALWAYS sent - critical for state synchronization (shows component cleanup)
+      devToolsConnection.send({ type: "[PATCH]", meta: { isPatch: true } }, getAggregatedState());
+      return;
+    case "unmount":
+      // The cleaned up state after an app is unmounted
+      devToolsConnection.send(
+        { type: `${event.id}/[Unmount]`, meta: { lifecycle: true } },
+        getAggregatedState()
+      );
+      return;
+    case "mount":
+    case "destroy":
       devToolsConnection.send(
         {
-          type: `${id}/[Task] ${label}/failure`,
-          payload: {
-            error: err && typeof err === "object" && "message" in err ? err.message : String(err)
-          },
-          meta: { isTask: true, status: "failure" }
+          type: `${event.id}/[${event.type === "mount" ? "Mount" : "Destroy"}]`,
+          meta: { lifecycle: true, element: event.element && describeElement(event.element) }
         },
         getAggregatedState()
       );
-    }
+      return;
+    case "caughtError":
+      devToolsConnection.send(
+        {
+          type: `${event.id}/[Error]`,
+          payload: { error: getMessage(event.error) },
+          meta: { isError: true }
+        },
+        getAggregatedState()
+      );
+      return;
+  }
+};
 
-    // Console logging
-    if (logEnabled) {
-      console.log(`%c\n...#${id} task "${label}" failure`, "color: #dd8");
-      if (err) console.error(JSON.stringify(err));
+// Logs the full lifecycle to the console, grouped by component
+export const consoleLogger: Logger = (event) => {
+  switch (event.type) {
+    case "initialState":
+      console.group(`%c#${event.id}`, "color: #69f");
+      if (event.state) {
+        console.log(`${JSON.stringify(event.state)}`);
+      }
+      groupId = event.id;
+      return;
+    case "actionEnd": {
+      if (!groupId || groupId !== event.id) {
+        console.group(`%c#${event.id}`, "color: #69f");
+        groupId = event.id;
+      }
+      if (event.changed && event.prevState) {
+        console.log(`%c${JSON.stringify(event.prevState)}`, "text-decoration: line-through;");
+      }
+      let msg = event.action;
+      if (event.data) {
+        msg += ` ${JSON.stringify(event.data)}`;
+      }
+      console.log(`%c${msg}`, "color: #f6b");
+      if (!event.changed) {
+        console.log(`No change`);
+      } else if (event.state) {
+        console.log(`${JSON.stringify(event.state)}`);
+      }
+      return;
     }
-  },
-  render(id: string, props?: Record<string, unknown> | null): void {
-    // Console logging
-    if (logEnabled) {
+    case "taskPerform":
+      console.log(`%cTask "${event.task}" perform${event.isPromise ? "..." : "ed"}`, "color: #dd8");
+      return;
+    case "taskSuccess":
+      console.log(`%c\n...#${event.id} task "${event.task}" success`, "color: #dd8");
+      return;
+    case "taskFailure":
+      console.log(`%c\n...#${event.id} task "${event.task}" failure`, "color: #dd8");
+      if (event.error) console.error(JSON.stringify(event.error));
+      return;
+    case "taskAbort":
+      console.log(`%c\n...#${event.id} task "${event.task}" aborted`, "color: #dd8");
+      return;
+    case "taskDrop":
+      console.log(`%cTask "${event.task}" dropped, already in progress`, "color: #dd8");
+      return;
+    case "subscriptionStart":
+      console.log(`%c#${event.id} subscription "${event.key}" started`, "color: #dd8");
+      return;
+    case "subscriptionStop":
+      console.log(`%c#${event.id} subscription "${event.key}" stopped`, "color: #dd8");
+      return;
+    case "render": {
       console.groupEnd();
-      let msg = `⟳ Render #${id}`;
-      if (props && Object.keys(props).length) {
-        msg += `, props: ${JSON.stringify(props, replacer)}`;
+      let msg = `⟳ Render #${event.id}`;
+      if (event.props && Object.keys(event.props).length) {
+        msg += `, props: ${JSON.stringify(event.props, replacer)}`;
       }
       console.log(`%c${msg}`, "color: #888");
       groupId = "";
+      return;
     }
-  },
-  patch(): void {
-    // Send updated state to Redux DevTools after VDOM patch completes
-    // At this point, destroy hooks have run and window.state is clean
-    // ALWAYS sent - critical for state synchronization (shows component cleanup)
-    if (devToolsConnection) {
-      devToolsConnection.send(
-        {
-          type: "[PATCH]",
-          meta: { isPatch: true }
-        },
-        getAggregatedState()
-      );
-    }
-
-    // Console logging
-    if (logEnabled) {
+    case "patch":
       console.log(`%c» PATCH`, "color: #888");
       console.groupEnd();
+      return;
+    case "unmount":
+      console.log(`%c» UNMOUNT #${event.id}`, "color: #888");
+      console.groupEnd();
+      groupId = "";
+      return;
+    case "mount":
+    case "destroy": {
+      const elementDesc = event.element ? ` ${describeElement(event.element)}` : "";
+      console.log(`%c» ${event.type.toUpperCase()} #${event.id}${elementDesc}`, "color: #888");
+      return;
     }
+    case "caughtError":
+    case "hydrationMismatch":
+      errorLogger(event);
+      return;
+  }
+};
+
+// Logs errors and warnings only
+export const errorLogger: Logger = (event) => {
+  if (event.type === "caughtError") {
+    console.error(`#${event.id} caught error: ${getMessage(event.error)}`, event.error);
+  } else if (event.type === "hydrationMismatch") {
+    console.warn(`Hydration mismatch at ${event.path}: ${event.message}`);
+  }
+};
+
+let loggers: Logger[] = [devToolsLogger, logToConsole ? consoleLogger : errorLogger];
+
+// Replaces all loggers, including the defaults
+export function setLogger(...newLoggers: Logger[]): void {
+  loggers = newLoggers;
+}
+
+// Adds a logger, returning a function that removes it
+export function addLogger(logger: Logger): () => void {
+  loggers = [...loggers, logger];
+  return () => {
+    loggers = loggers.filter((l) => l !== logger);
+  };
+}
+
+function emit(event: LogEvent): void {
+  loggers.forEach((logger) => logger(event));
+}
+
+// Called by the core for each lifecycle event
+export const log = {
+  // Set how the app restores an aggregated state when jumping to a past action
+  onJump(handler: JumpHandler): void {
+    jumpHandler = handler;
+  },
+  // Set how the app runs actions dispatched from DevTools
+  onDispatch(handler: DispatchHandler): void {
+    dispatchHandler = handler;
+  },
+  setStateGlobal(id: string, state: object | undefined | null): void {
+    // Maintain global state registry (DevTools and logging rely on this)
+    // Called after actions update state and during render lifecycle
+    if (typeof window === "undefined") return;
+    const win = window as unknown as { state: Record<string, object | undefined | null> };
+    const stateGlobal = win.state || (win.state = {});
+
+    if (state === undefined || state === null) {
+      delete stateGlobal[id];
+    } else {
+      stateGlobal[id] = state;
+    }
+  },
+  noInitialAction(id: string, state?: State): void {
+    emit({ type: "initialState", id, state });
+  },
+  actionStart(id: string, action: string, data?: Record<string, unknown>, state?: State): void {
+    emit({ type: "actionStart", id, action, data, state });
+  },
+  actionEnd(
+    id: string,
+    action: string,
+    data?: Record<string, unknown>,
+    prevState?: State,
+    state?: State
+  ): void {
+    emit({ type: "actionEnd", id, action, data, prevState, state, changed: state !== prevState });
+  },
+  taskPerform(id: string, task: string, isPromise: boolean): void {
+    emit({ type: "taskPerform", id, task, isPromise });
+  },
+  taskSuccess(id: string, task: string): void {
+    emit({ type: "taskSuccess", id, task });
+  },
+  taskFailure(id: string, task: string, error: unknown): void {
+    emit({ type: "taskFailure", id, task, error });
+  },
+  taskAbort(id: string, task: string): void {
+    emit({ type: "taskAbort", id, task });
+  },
+  taskDrop(id: string, task: string): void {
+    emit({ type: "taskDrop", id, task });
+  },
+  subscriptionStart(id: string, key: string): void {
+    emit({ type: "subscriptionStart", id, key });
+  },
+  subscriptionStop(id: string, key: string): void {
+    emit({ type: "subscriptionStop", id, key });
+  },
+  render(id: string, props?: Record<string, unknown> | null): void {
+    emit({ type: "render", id, props });
+  },
+  patch(): void {
+    emit({ type: "patch" });
+  },
+  unmount(id: string): void {
+    emit({ type: "unmount", id });
+  },
+  mount(id: string, element?: Element): void {
+    emit({ type: "mount", id, element });
+  },
+  destroy(id: string, element?: Element): void {
+    emit({ type: "destroy", id, element });
+  },
+  caughtError(id: string, error: unknown): void {
+    emit({ type: "caughtError", id, error });
+  },
+  hydrationMismatch(path: string, message: string): void {
+    emit({ type: "hydrationMismatch", path, message });
   },
   manualError(id: string, name: string): void {
     throw Error(`#${id} "${name}" cannot be invoked manually`);
   }
 };
 
+function getMessage(err: unknown): unknown {
+  return err && typeof err === "object" && "message" in err ? err.message : String(err);
+}
+
+// e.g. `<div#app.page>`
+function describeElement(element: Element): string {
+  const id = element.id ? `#${element.id}` : "";
+  const classes = Array.from(element.classList)
+    .map((c) => `.${c}`)
+    .join("");
+  return `<${element.tagName.toLowerCase()}${id}${classes}>`;
+}
+
 function replacer(k: string, v: string | Function): string {
   return typeof v === "function" ? "[fn]" : v;
 }
 
-window.addEventListener("error", () => {
-  setTimeout(() => {
-    console.groupEnd();
-    groupId = "";
+if (typeof window !== "undefined") {
+  window.addEventListener("error", () => {
+    setTimeout(() => {
+      console.groupEnd();
+      groupId = "";
+    });
   });
-});
+}
@@ -0,0 +1,197 @@
+import { vi } from "vitest";
+import {
+  _setTestKey,
+  addLogger,
+  component,
+  devToolsLogger,
+  errorLogger,
+  html,
+  LogEvent,
+  mount,
+  setLogger
+} from "./pure-ui-actions";
+const { div } = html;
+const testKey = _setTestKey({});
+
+describe("Loggers", () => {
+  let events: LogEvent[];
+  let removeLogger: () => void;
+  let appAction: Function;
+  let appTask: Function;
+
+  type AppComponent = {
+    State: { count: number };
+    ActionPayloads: { Increment: null; Fail: null };
+    TaskPayloads: { Save: { fail: boolean } };
+  };
+
+  const app = component<AppComponent>(({ action, task }) => {
+    appAction = action;
+    appTask = task;
+    return {
+      state: () => ({ count: 0 }),
+      actions: {
+        Increment: (_, { state }) => ({ state: { count: state.count + 1 } }),
+        Fail: () => {
+          throw Error("Action failed");
+        }
+      },
+      tasks: {
+        Save: ({ fail }) => ({
+          perform: (): Promise<void> => (fail ? Promise.reject("Save failed") : Promise.resolve())
+        })
+      },
+      view: (id, { state }) => div(`#${id}`, String(state.count))
+    };
+  });
+
+  const types = (): string[] => events.map((e) => e.type);
+
+  beforeEach(() => {
+    events = [];
+    removeLogger = addLogger((event) => events.push(event));
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  afterEach(() => {
+    removeLogger();
+  });
+
+  it("should log component creation, render, patch and mount", () => {
+    mount({ app, props: {} });
+    expect(events).toEqual([
+      { type: "initialState", id: "app", state: { count: 0 } },
+      { type: "render", id: "app", props: {} },
+      { type: "patch" },
+      { type: "mount", id: "app", element: document.getElementById("app") }
+    ]);
+  });
+
+  it("should log mount and destroy for every component", () => {
+    const child = component(() => ({ view: (id) => div(`#${id}`) }));
+    let parentAction: Function = () => {};
+    const parent = component<{ State: { show: boolean }; ActionPayloads: { Hide: null } }>(
+      ({ action }) => {
+        parentAction = action;
+        return {
+          state: () => ({ show: true }),
+          actions: { Hide: () => ({ state: { show: false } }) },
+          view: (id, { state }) => div(`#${id}`, [state.show ? child("#child") : ""])
+        };
+      }
+    );
+    mount({ app: parent, props: {} });
+    const element = document.getElementById("child");
+    expect(events.filter((e) => e.type === "mount")).toEqual([
+      { type: "mount", id: "child", element },
+      { type: "mount", id: "app", element: document.getElementById("app") }
+    ]);
+
+    events = [];
+    parentAction("Hide")(testKey);
+    expect(events.filter((e) => e.type === "destroy")).toEqual([
+      { type: "destroy", id: "child", element }
+    ]);
+  });
+
+  it("should log the start and end of an action", () => {
+    mount({ app, props: {} });
+    events = [];
+    appAction("Increment")(testKey);
+
+    expect(events.slice(0, 2)).toEqual([
+      { type: "actionStart", id: "app", action: "Increment", data: undefined, state: { count: 0 } },
+      {
+        type: "actionEnd",
+        id: "app",
+        action: "Increment",
+        data: undefined,
+        prevState: { count: 0 },
+        state: { count: 1 },
+        changed: true
+      }
+    ]);
+    expect(types().slice(2)).toEqual(["render", "patch"]);
+  });
+
+  it("should log task results", async () => {
+    mount({ app, props: {} });
+    events = [];
+    await appTask("Save", { fail: false })(testKey);
+    await appTask("Save", { fail: true })(testKey);
+
+    expect(events).toEqual([
+      { type: "taskPerform", id: "app", task: "Save", isPromise: true },
+      { type: "taskSuccess", id: "app", task: "Save" },
+      { type: "taskPerform", id: "app", task: "Save", isPromise: true },
+      { type: "taskFailure", id: "app", task: "Save", error: "Save failed" }
+    ]);
+  });
+
+  it("should log destroy and unmount", () => {
+    const { unmount } = mount({ app, props: {} });
+    events = [];
+    unmount();
+    expect(types()).toEqual(["destroy", "unmount"]);
+  });
+
+  it("should stop logging once removed", () => {
+    mount({ app, props: {} });
+    removeLogger();
+    events = [];
+    appAction("Increment")(testKey);
+    expect(events).toEqual([]);
+  });
+
+  describe("setLogger", () => {
+    let consoleError: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      setLogger(devToolsLogger, errorLogger);
+      vi.restoreAllMocks();
+    });
+
+    it("should replace the default loggers", () => {
+      const logged: LogEvent[] = [];
+      setLogger((event) => logged.push(event));
+      mount({ app, props: {} });
+
+      expect(logged.map((e) => e.type)).toContain("render");
+      expect(events).toEqual([]);
+    });
+
+    it("should show errors with the default loggers", () => {
+      const boundary = component(() => ({
+        catch: { view: (id) => div(`#${id}`, "Error") },
+        view: (id) => div(`#${id}`, [app("child")])
+      }));
+      mount({ app: boundary, props: {} });
+      appAction("Fail")(testKey);
+
+      expect(consoleError).toHaveBeenCalledWith(
+        "#app caught error: Action failed",
+        expect.any(Error)
+      );
+      expect(events).toContainEqual({
+        type: "caughtError",
+        id: "app",
+        error: Error("Action failed")
+      });
+    });
+
+    it("should not show errors when the loggers are replaced", () => {
+      setLogger();
+      const boundary = component(() => ({
+        catch: { view: (id) => div(`#${id}`, "Error") },
+        view: (id) => div(`#${id}`, [app("child")])
+      }));
+      mount({ app: boundary, props: {} });
+      appAction("Fail")(testKey);
+      expect(consoleError).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { component, html, mountTest } from "./pure-ui-actions";
+const { button, div, span } = html;
+
+describe("mountTest", () => {
+  let performed: string[];
+
+  type CounterComponent = {
+    Props: { label: string };
+    State: { count: number; saved: number; error: string };
+    ActionPayloads: {
+      Increment: { step: number };
+      Saved: { count: number };
+      SaveFailed: { message: string };
+    };
+    TaskPayloads: { Save: { count: number } };
+  };
+
+  const counter = component<CounterComponent>(({ action, task }) => ({
+    state: () => ({ count: 0, saved: 0, error: "" }),
+    actions: {
+      Increment: ({ step }, { state }) => {
+        const count = state.count + step;
+        return { state: { ...state, count }, next: task("Save", { count }) };
+      },
+      Saved: ({ count }, { state }) => ({ state: { ...state, saved: count, error: "" } }),
+      SaveFailed: ({ message }, { state }) => ({ state: { ...state, error: message } })
+    },
+    tasks: {
+      Save: ({ count }) => ({
+        perform: (): Promise<number> => {
+          performed.push(`Save ${count}`);
+          return new Promise((resolve) => setTimeout(() => resolve(count)));
+        },
+        success: (count: number) => action("Saved", { count }),
+        failure: (err: { message?: string }) => action("SaveFailed", { message: err.message ?? "" })
+      })
+    },
+    view: (id, { props, state }) =>
+      div(`#${id}`, [
+        span(".label", `${props.label}: ${state.count}`),
+        state.error ? span(".error", state.error) : "",
+        button(".increment", { on: { click: action("Increment", { step: 1 }) } }, "+")
+      ])
+  }));
+
+  type AppComponent = {
+    State: { title: string };
+    ActionPayloads: { SetTitle: { title: string } };
+  };
+
+  const app = component<AppComponent>(() => ({
+    state: () => ({ title: "Counters" }),
+    actions: {
+      SetTitle: ({ title }, { state }) => ({ state: { ...state, title } })
+    },
+    view: (id, { state }) =>
+      div(`#${id}`, [
+        span(".title", state.title),
+        counter("#first", { label: "First" }),
+        counter("#second", { label: "Second" })
+      ])
+  }));
+
+  beforeEach(() => {
+    performed = [];
+  });
+
+  it("should render into a detached container", () => {
+    const { container, unmount } = mountTest(app);
+    expect(container.isConnected).toBe(false);
+    expect(container.firstElementChild?.id).toBe("app");
+    expect(container.querySelector(".title")?.textContent).toBe("Counters");
+    expect(container.querySelectorAll(".label").length).toBe(2);
+    unmount();
+  });
+
+  it("should dispatch root actions by name and update the DOM", () => {
+    const { container, dispatch, getState, unmount } = mountTest<AppComponent>(app);
+    dispatch("SetTitle", { title: "Updated" });
+    expect(getState()).toEqual({ title: "Updated" });
+    expect(container.querySelector(".title")?.textContent).toBe("Updated");
+    unmount();
+  });
+
+  it("should mount with props and a root id", () => {
+    const { container, getState, unmount } = mountTest(counter, { label: "Only" }, { id: "main" });
+    expect(container.firstElementChild?.id).toBe("main");
+    expect(container.querySelector(".label")?.textContent).toBe("Only: 0");
+    expect(getState()).toEqual({ count: 0, saved: 0, error: "" });
+    unmount();
+  });
+
+  it("should return every component's state from the registry", () => {
+    const { getStates, getComponentRegistry, unmount } = mountTest(app);
+    expect(getStates()).toEqual({
+      app: { title: "Counters" },
+      first: { count: 0, saved: 0, error: "" },
+      second: { count: 0, saved: 0, error: "" }
+    });
+    expect(Array.from(getComponentRegistry().keys())).toEqual(["app", "first", "second"]);
+    unmount();
+  });
+
+  it("should dispatch child actions and flush their tasks", async () => {
+    const { container, dispatch, flush, getState, unmount } = mountTest(app);
+    dispatch("Increment", { step: 2 }, "first");
+    expect(getState("first")).toEqual({ count: 2, saved: 0, error: "" });
+    expect(performed).toEqual(["Save 2"]);
+
+    await flush();
+    expect(getState("first")).toEqual({ count: 2, saved: 2, error: "" });
+    expect(getState("second")).toEqual({ count: 0, saved: 0, error: "" });
+    expect(container.querySelector("#first .label")?.textContent).toBe("First: 2");
+    unmount();
+  });
+
+  it("should run DOM events through the rendered handlers", async () => {
+    const { container, flush, getState, unmount } = mountTest(counter, { label: "Count" });
+    (container.querySelector(".increment") as HTMLElement).click();
+    await flush();
+    expect(getState()).toEqual({ count: 1, saved: 1, error: "" });
+    expect(container.querySelector(".label")?.textContent).toBe("Count: 1");
+    unmount();
+  });
+
+  it("should use faked task results instead of performing", async () => {
+    const { dispatch, fakeTask, flush, getState, unmount } = mountTest<CounterComponent>(counter, {
+      label: "Count"
+    });
+    fakeTask("Save", { result: 10 });
+    dispatch("Increment", { step: 1 });
+    await flush();
+    expect(performed).toEqual([]);
+    expect(getState()).toEqual({ count: 1, saved: 10, error: "" });
+
+    fakeTask("Save", { error: new Error("Offline") });
+    dispatch("Increment", { step: 1 });
+    await flush();
+    expect(getState()).toEqual({ count: 2, saved: 10, error: "Offline" });
+    unmount();
+  });
+
+  it("should fake the tasks of a child component", async () => {
+    const { container, dispatch, fakeTask, flush, getState, unmount } = mountTest(app);
+    fakeTask("Save", { error: new Error("Denied") }, "second");
+    dispatch("Increment", { step: 1 }, "second");
+    dispatch("Increment", { step: 1 }, "first");
+    await flush();
+    expect(performed).toEqual(["Save 1"]);
+    expect(getState("first")).toEqual({ count: 1, saved: 1, error: "" });
+    expect(getState("second")).toEqual({ count: 1, saved: 0, error: "Denied" });
+    expect(container.querySelector("#second .error")?.textContent).toBe("Denied");
+    unmount();
+  });
+
+  it("should type check root actions", () => {
+    // Checked by the type-check only
+    const invalid = (): void => {
+      const { dispatch } = mountTest<CounterComponent>(counter, { label: "" });
+      // @ts-expect-error unknown root action
+      dispatch("Missing");
+      // @ts-expect-error step must be a number
+      dispatch("Increment", { step: "1" });
+      // Child actions are named by string
+      dispatch("Missing", null, "child");
+    };
+    expect(invalid).toBeInstanceOf(Function);
+  });
+
+  it("should throw for an unknown component", () => {
+    const { dispatch, getState, unmount } = mountTest(app);
+    expect(() => dispatch("SetTitle", undefined, "missing")).toThrow(
+      "Component missing not found in registry"
+    );
+    expect(() => getState("missing")).toThrow("Component missing not found in registry");
+    unmount();
+  });
+
+  it("should throw for an unknown action", () => {
+    const { dispatch, getState, unmount } = mountTest(app);
+    expect(() => dispatch("SetTitel", { title: "Typo" }, "app")).toThrow(
+      'Component "app" has no action "SetTitel"'
+    );
+    expect(() => dispatch("Incremnt", { step: 1 }, "first")).toThrow(
+      'Component "first" has no action "Incremnt"'
+    );
+    expect(getState()).toEqual({ title: "Counters" });
+    unmount();
+  });
+
+  it("should throw when tasks never complete", async () => {
+    const pending = component<{ TaskPayloads: { Wait: null } }>(({ task }) => ({
+      init: task("Wait"),
+      tasks: {
+        Wait: () => ({ perform: (): Promise<void> => new Promise(() => {}) })
+      },
+      view: (id) => div(`#${id}`)
+    }));
+    const { flush, unmount } = mountTest(pending);
+    await expect(flush()).rejects.toThrow("Tasks are still running");
+    unmount();
+  });
+});
@@ -0,0 +1,408 @@
+import { vi } from "vitest";
+import {
+  _setTestKey,
+  component,
+  html,
+  mount,
+  getComponentRegistry,
+  publish,
+  subscribe
+} from "./pure-ui-actions";
+const { div } = html;
+const testKey = _setTestKey({});
+
+declare module "./pure-ui-actions" {
+  interface EventMap {
+    "cart-updated": undefined;
+  }
+}
+
+type RootComponent = {
+  Props: Record<string, never>;
+  State: { theme: string };
+  ActionPayloads: { SetTheme: { theme: string } };
+};
+
+type ChildComponent = {
+  Props: Record<string, never>;
+  State: { count: number };
+  ActionPayloads: { Increment: null };
+  RootState: { theme: string };
+};
+
+describe("mount", () => {
+  let rootAction: Function;
+  let childAction: Function;
+  let childRenders: string[];
+
+  const child = component<ChildComponent>(({ action: a }) => {
+    childAction = a;
+    return {
+      state: () => ({ count: 0 }),
+      actions: {
+        Increment: (_, { state }) => ({ state: { ...state, count: state.count + 1 } })
+      },
+      view: (id, { state, rootState }) => {
+        childRenders.push(id);
+        return div(`#${id}`, `${rootState.theme}:${state.count}`);
+      }
+    };
+  });
+
+  const app = component<RootComponent>(({ action: a }) => {
+    rootAction = a;
+    return {
+      state: () => ({ theme: "light" }),
+      actions: {
+        SetTheme: ({ theme }, { state }) => ({ state: { ...state, theme } })
+      },
+      view: (id) => div(`#${id}`, [child("child", {})])
+    };
+  });
+
+  beforeEach(() => {
+    childRenders = [];
+    document.body.innerHTML = "";
+  });
+
+  describe("target", () => {
+    it("should mount into the element with id 'app' by default", () => {
+      document.body.innerHTML = `<div id="app"></div>`;
+      mount({ app, props: {} });
+
+      expect(document.getElementById("app")?.textContent).toBe("light:0");
+      expect(getComponentRegistry().get("app")?.isRoot).toBe(true);
+    });
+
+    it("should throw when the default element is missing", () => {
+      expect(() => mount({ app, props: {} })).toThrow('Element with id "app" not found');
+    });
+
+    it("should mount into an element passed directly, using its id as root id", () => {
+      document.body.innerHTML = `<section><div id="cms-widget"></div></section>`;
+      const el = document.getElementById("cms-widget") as Element;
+      mount({ app, props: {}, target: el });
+
+      expect(document.getElementById("cms-widget")?.textContent).toBe("light:0");
+      expect(getComponentRegistry().get("cms-widget")?.isRoot).toBe(true);
+      expect(getComponentRegistry().get("child")?.isRoot).toBe(false);
+    });
+
+    it("should mount into an element matched by a selector", () => {
+      document.body.innerHTML = `<div class="widget-slot"></div>`;
+      mount({ app, props: {}, target: ".widget-slot", rootId: "widget" });
+
+      expect(document.getElementById("widget")?.textContent).toBe("light:0");
+      expect(getComponentRegistry().get("widget")?.isRoot).toBe(true);
+    });
+
+    it("should throw when a selector matches nothing", () => {
+      expect(() => mount({ app, props: {}, target: ".missing" })).toThrow(
+        'Element ".missing" not found'
+      );
+    });
+
+    it("should fall back to root id 'app' when the target has no id", () => {
+      const el = document.createElement("div");
+      document.body.appendChild(el);
+      mount({ app, props: {}, target: el });
+
+      expect(getComponentRegistry().get("app")?.isRoot).toBe(true);
+    });
+  });
+
+  describe("custom root id", () => {
+    beforeEach(() => {
+      document.body.innerHTML = `<div id="cms-widget"></div>`;
+      mount({ app, props: {}, target: "#cms-widget" });
+      childRenders = [];
+    });
+
+    it("should wire rootState from the chosen root", () => {
+      rootAction("SetTheme", { theme: "dark" })(testKey);
+      expect(document.getElementById("cms-widget")?.textContent).toBe("dark:0");
+    });
+
+    it("should redirect child renders to the chosen root", () => {
+      childAction("Increment")(testKey);
+      expect(childRenders).toEqual(["child"]);
+      expect(document.getElementById("cms-widget")?.textContent).toBe("light:1");
+    });
+  });
+});
+
+describe("multiple apps", () => {
+  type WidgetComponent = {
+    Props: { label: string };
+    State: { count: number; result: string };
+    ActionPayloads: { Increment: null; SetResult: { text: string } };
+    TaskPayloads: { Load: null };
+  };
+
+  const widgetActions: Record<string, Function> = {};
+  const widgetTasks: Record<string, Function> = {};
+
+  const widget = component<WidgetComponent>(({ action, task }) => ({
+    state: () => ({ count: 0, result: "" }),
+    actions: {
+      Increment: (_, { state }) => ({ state: { ...state, count: state.count + 1 } }),
+      SetResult: ({ text }, { state }) => ({ state: { ...state, result: text } })
+    },
+    tasks: {
+      Load: () => ({
+        perform: () => Promise.resolve(),
+        success: (_, { props, state }) =>
+          action("SetResult", { text: `${props.label}:${state.count}` })
+      })
+    },
+    view: (id, { props, state }) => {
+      widgetActions[props.label] = action;
+      widgetTasks[props.label] = task;
+      return div(`#${id}`, `${props.label}:${state.count}:${state.result}`);
+    }
+  }));
+
+  beforeEach(() => {
+    document.body.innerHTML = `<div id="header"></div><div id="checkout"></div>`;
+  });
+
+  it("should keep a separate registry for each app", () => {
+    const header = mount({ app: widget, props: { label: "h" }, target: "#header" });
+    const checkout = mount({ app: widget, props: { label: "c" }, target: "#checkout" });
+
+    expect(header.rootId).toBe("header");
+    expect(checkout.rootId).toBe("checkout");
+    expect(Array.from(header.getComponentRegistry().keys())).toEqual(["header"]);
+    expect(Array.from(checkout.getComponentRegistry().keys())).toEqual(["checkout"]);
+  });
+
+  it("should not clobber the first app when mounting a second", () => {
+    mount({ app: widget, props: { label: "h" }, target: "#header" });
+    mount({ app: widget, props: { label: "c" }, target: "#checkout" });
+
+    widgetActions.h("Increment")(testKey);
+    widgetActions.h("Increment")(testKey);
+    widgetActions.c("Increment")(testKey);
+
+    expect(document.getElementById("header")?.textContent).toBe("h:2:");
+    expect(document.getElementById("checkout")?.textContent).toBe("c:1:");
+  });
+
+  it("should allow apps to share component ids", () => {
+    document.body.innerHTML = `<div class="a"></div><div class="b"></div>`;
+    const a = mount({ app: widget, props: { label: "a" }, target: ".a", rootId: "widget" });
+    const b = mount({ app: widget, props: { label: "b" }, target: ".b", rootId: "widget" });
+
+    widgetActions.a("Increment")(testKey);
+
+    expect(a.getRootState()).toEqual({ count: 1, result: "" });
+    expect(b.getRootState()).toEqual({ count: 0, result: "" });
+    expect(document.body.textContent).toBe("a:1:b:0:");
+  });
+
+  it("should resolve tasks against the app that started them", async () => {
+    const header = mount({ app: widget, props: { label: "h" }, target: "#header" });
+    const pending = widgetTasks.h("Load")(testKey);
+    mount({ app: widget, props: { label: "c" }, target: "#checkout" });
+
+    await pending;
+
+    expect(header.getRootState()).toEqual({ count: 0, result: "h:0" });
+    expect(document.getElementById("header")?.textContent).toBe("h:0:h:0");
+    expect(document.getElementById("checkout")?.textContent).toBe("c:0:");
+  });
+
+  it("should run root actions through the app handle", () => {
+    const header = mount<WidgetComponent["ActionPayloads"], WidgetComponent["Props"]>({
+      app: widget,
+      props: { label: "h" },
+      target: "#header"
+    });
+    mount({ app: widget, props: { label: "c" }, target: "#checkout" });
+
+    header.runRootAction("Increment");
+
+    expect(document.getElementById("header")?.textContent).toBe("h:1:");
+    expect(document.getElementById("checkout")?.textContent).toBe("c:0:");
+  });
+});
+
+describe("unmount", () => {
+  type ChildComponent = {
+    Props: Record<string, never>;
+    State: { text: string };
+    ActionPayloads: { SetText: { text: string } };
+    TaskPayloads: { Load: null };
+  };
+
+  let resolveLoad: (text: string) => void;
+  let childTask: Function;
+  let childAction: Function;
+  let clicks: number;
+
+  const child = component<ChildComponent>(({ action, task }) => {
+    childTask = task;
+    childAction = action;
+    return {
+      state: () => ({ text: "" }),
+      actions: {
+        SetText: ({ text }, { state }) => ({ state: { ...state, text } })
+      },
+      tasks: {
+        Load: () => ({
+          perform: () => new Promise<string>((resolve) => (resolveLoad = resolve)),
+          success: (text) => action("SetText", { text })
+        })
+      },
+      view: (id, { state }) => div(`#${id}`, state.text)
+    };
+  });
+
+  const app = component<{ ActionPayloads: { Click: null } }>(({ action }) => ({
+    actions: {
+      Click: (_, { state }) => {
+        clicks++;
+        return { state };
+      }
+    },
+    view: (id) => div(`#${id}.app`, { on: { click: action("Click") } }, [child("child", {})])
+  }));
+
+  function getWindowState(): Record<string, unknown> {
+    return (window as unknown as { state: Record<string, unknown> }).state;
+  }
+
+  beforeEach(() => {
+    clicks = 0;
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  it("should patch the root to an empty node", () => {
+    const { unmount } = mount({ app, props: {} });
+    unmount();
+
+    const el = document.getElementById("app");
+    expect(el).not.toBeNull();
+    expect(el?.childNodes.length).toBe(0);
+  });
+
+  it("should remove DOM listeners", () => {
+    const { unmount } = mount({ app, props: {} });
+    const el = document.getElementById("app") as HTMLElement;
+    el.click();
+    expect(clicks).toBe(1);
+
+    unmount();
+    el.click();
+    expect(clicks).toBe(1);
+  });
+
+  it("should clear the registry and DevTools state for every component", () => {
+    const { unmount, getComponentRegistry: getRegistry } = mount({ app, props: {} });
+    expect(Array.from(getRegistry().keys())).toEqual(["app", "child"]);
+    expect(getWindowState()).toHaveProperty("child");
+
+    unmount();
+    expect(getRegistry().size).toBe(0);
+    expect(getWindowState()).not.toHaveProperty("child");
+    expect(getWindowState()).not.toHaveProperty("app");
+  });
+
+  it("should ignore task results that resolve after unmount", async () => {
+    const { unmount } = mount({ app, props: {} });
+    const pending = childTask("Load")(testKey);
+    unmount();
+
+    resolveLoad("loaded");
+    await pending;
+
+    expect(document.getElementById("app")?.textContent).toBe("");
+    expect(getWindowState()).not.toHaveProperty("child");
+  });
+
+  it("should throw when a thunk from an unmounted app is invoked", () => {
+    const { unmount } = mount({ app, props: {} });
+    unmount();
+    expect(() => childAction("SetText", { text: "x" })(testKey)).toThrow(
+      "Component child not found in registry"
+    );
+  });
+
+  it("should remove listeners subscribed by the app", () => {
+    const listener = vi.fn();
+    const { subscribe: subscribeApp, unmount } = mount({ app, props: {} });
+    subscribeApp("cart-updated", listener);
+    publish("cart-updated");
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unmount();
+    publish("cart-updated");
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only remove the listeners of the unmounted app", () => {
+    document.body.innerHTML = `<div id="a"></div><div id="b"></div>`;
+    const a = mount({ app: widgetApp, props: {}, target: "#a" });
+    const b = mount({ app: widgetApp, props: {}, target: "#b" });
+    const appListener = vi.fn();
+    const pageListener = vi.fn();
+    a.subscribe("cart-updated", appListener);
+    const stop = subscribe("cart-updated", pageListener);
+
+    b.unmount();
+    publish("cart-updated");
+    expect(appListener).toHaveBeenCalledTimes(1);
+    expect(pageListener).toHaveBeenCalledTimes(1);
+
+    a.unmount();
+    publish("cart-updated");
+    expect(appListener).toHaveBeenCalledTimes(1);
+    expect(pageListener).toHaveBeenCalledTimes(2);
+
+    stop();
+    publish("cart-updated");
+    expect(pageListener).toHaveBeenCalledTimes(2);
+  });
+
+  it("should stop an app listener before unmount", () => {
+    const listener = vi.fn();
+    const { subscribe: subscribeApp, unmount } = mount({ app, props: {} });
+    const stop = subscribeApp("cart-updated", listener);
+    stop();
+    publish("cart-updated");
+    expect(listener).not.toHaveBeenCalled();
+    unmount();
+  });
+
+  it("should not affect other apps", () => {
+    document.body.innerHTML = `<div id="a"></div><div id="b"></div>`;
+    const a = mount({ app: widgetApp, props: {}, target: "#a" });
+    const b = mount({ app: widgetApp, props: {}, target: "#b" });
+
+    a.unmount();
+
+    expect(document.getElementById("a")?.textContent).toBe("");
+    expect(document.getElementById("b")?.textContent).toBe("widget");
+    expect(b.getComponentRegistry().has("b")).toBe(true);
+  });
+
+  it("should allow mounting again into the same element", () => {
+    const first = mount({ app, props: {} });
+    first.unmount();
+    const second = mount({ app, props: {} });
+
+    expect(Array.from(second.getComponentRegistry().keys())).toEqual(["app", "child"]);
+    childAction("SetText", { text: "again" })(testKey);
+    expect(document.getElementById("app")?.textContent).toBe("again");
+  });
+
+  it("should do nothing when called twice", () => {
+    const { unmount } = mount({ app, props: {} });
+    unmount();
+    expect(() => unmount()).not.toThrow();
+  });
+
+  const widgetApp = component(() => ({
+    view: (id: string) => div(`#${id}`, "widget")
+  }));
+});
@@ -0,0 +1,187 @@
+import { vi } from "vitest";
+import {
+  _setTestKey,
+  component,
+  createMemoryStorage,
+  html,
+  mount,
+  PersistOptions,
+  renderToString,
+  setPersistStorage,
+  StorageLike
+} from "./pure-ui-actions";
+const { div } = html;
+const testKey = _setTestKey({});
+
+describe("State persistence", () => {
+  type State = { theme: string; likes: number; draft: string };
+  type AppComponent = {
+    State: State;
+    ActionPayloads: { SetTheme: { theme: string }; Like: null };
+  };
+
+  let storage: StorageLike;
+  let persist: PersistOptions<State>;
+  let appAction: Function;
+
+  const app = component<AppComponent>(({ action }) => {
+    appAction = action;
+    return {
+      state: () => ({ theme: "light", likes: 0, draft: "" }),
+      persist,
+      actions: {
+        SetTheme: ({ theme }, { state }) => ({ state: { ...state, theme } }),
+        Like: (_, { state }) => ({ state: { ...state, likes: state.likes + 1 } })
+      },
+      view: (id, { state }) => div(`#${id}.${state.theme}`, String(state.likes))
+    };
+  });
+
+  const stored = (key = "app"): unknown => JSON.parse(storage.getItem(key) ?? "null");
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    setPersistStorage("local", storage);
+    persist = { keys: ["theme", "likes"] };
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  afterEach(() => {
+    setPersistStorage("local", undefined);
+  });
+
+  it("should save persisted keys when state changes", () => {
+    mount({ app, props: {} });
+    appAction("SetTheme", { theme: "dark" })(testKey);
+    expect(stored()).toEqual({ version: 1, state: { theme: "dark", likes: 0 } });
+  });
+
+  it("should restore persisted keys over the initial state", () => {
+    storage.setItem("app", JSON.stringify({ version: 1, state: { theme: "dark", likes: 3 } }));
+    const { getRootState } = mount({ app, props: {} });
+
+    expect(getRootState()).toEqual({ theme: "dark", likes: 3, draft: "" });
+    expect(document.querySelector(".dark")?.textContent).toBe("3");
+  });
+
+  it("should only restore persisted keys", () => {
+    storage.setItem("app", JSON.stringify({ version: 1, state: { draft: "text" } }));
+    const { getRootState } = mount({ app, props: {} });
+    expect(getRootState()?.draft).toBe("");
+  });
+
+  it("should use a custom storage key", () => {
+    persist = { key: "settings" };
+    mount({ app, props: {} });
+    appAction("Like")(testKey);
+    expect(stored("settings")).toEqual({
+      version: 1,
+      state: { theme: "light", likes: 1, draft: "" }
+    });
+  });
+
+  it("should use a storage from the config", () => {
+    const custom = createMemoryStorage();
+    persist = { storage: custom, keys: ["likes"] };
+    mount({ app, props: {} });
+    appAction("Like")(testKey);
+
+    expect(storage.getItem("app")).toBeNull();
+    expect(JSON.parse(custom.getItem("app") ?? "")).toEqual({ version: 1, state: { likes: 1 } });
+  });
+
+  it("should ignore unreadable state", () => {
+    storage.setItem("app", "{");
+    const { getRootState } = mount({ app, props: {} });
+    expect(getRootState()?.theme).toBe("light");
+  });
+
+  it("should not restore state when rendering to a string", () => {
+    storage.setItem("app", JSON.stringify({ version: 1, state: { theme: "dark" } }));
+    expect(renderToString(app, {})).toContain("light");
+  });
+
+  describe("debounce", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      persist = { keys: ["likes"], debounce: 500 };
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should save once changes pause", () => {
+      mount({ app, props: {} });
+      appAction("Like")(testKey);
+      vi.advanceTimersByTime(300);
+      appAction("Like")(testKey);
+      vi.advanceTimersByTime(300);
+      expect(storage.getItem("app")).toBeNull();
+
+      vi.advanceTimersByTime(200);
+      expect(stored()).toEqual({ version: 1, state: { likes: 2 } });
+    });
+
+    it("should save pending state when the app is unmounted", () => {
+      const { unmount } = mount({ app, props: {} });
+      appAction("Like")(testKey);
+      unmount();
+      expect(stored()).toEqual({ version: 1, state: { likes: 1 } });
+    });
+
+    it("should save pending state when the page is hidden", () => {
+      mount({ app, props: {} });
+      appAction("Like")(testKey);
+      window.dispatchEvent(new Event("pagehide"));
+      expect(stored()).toEqual({ version: 1, state: { likes: 1 } });
+    });
+
+    it("should only listen for pagehide while a save is pending", () => {
+      const addSpy = vi.spyOn(window, "addEventListener");
+      const removeSpy = vi.spyOn(window, "removeEventListener");
+      mount({ app, props: {} });
+      appAction("Like")(testKey);
+      appAction("Like")(testKey);
+      vi.advanceTimersByTime(500);
+
+      const pageHide = (spy: typeof addSpy): unknown[][] =>
+        spy.mock.calls.filter(([type]) => type === "pagehide");
+      expect(pageHide(addSpy)).toHaveLength(1);
+      expect(pageHide(removeSpy)).toEqual(pageHide(addSpy));
+      addSpy.mockRestore();
+      removeSpy.mockRestore();
+    });
+  });
+
+  describe("migrations", () => {
+    beforeEach(() => {
+      persist = {
+        keys: ["theme", "likes"],
+        version: 3,
+        migrations: {
+          2: (state) => ({ theme: state.dark ? "dark" : "light", likes: state.likes }),
+          3: (state) => ({ ...state, likes: Number(state.likes) })
+        }
+      };
+    });
+
+    it("should run each newer migration in order", () => {
+      storage.setItem("app", JSON.stringify({ version: 1, state: { dark: true, likes: "4" } }));
+      const { getRootState } = mount({ app, props: {} });
+      expect(getRootState()).toEqual({ theme: "dark", likes: 4, draft: "" });
+    });
+
+    it("should save with the current version", () => {
+      mount({ app, props: {} });
+      appAction("Like")(testKey);
+      expect(stored()).toEqual({ version: 3, state: { theme: "light", likes: 1 } });
+    });
+
+    it("should ignore state from a newer version", () => {
+      storage.setItem("app", JSON.stringify({ version: 4, state: { theme: "dark" } }));
+      const { getRootState } = mount({ app, props: {} });
+      expect(getRootState()?.theme).toBe("light");
+    });
+  });
+});
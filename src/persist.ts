@@ -0,0 +1,130 @@
+/*
+State persistence for components with a `persist` config, e.g.
+`persist: { keys: ["theme"], storage: "session", debounce: 500 }`
+- Persisted keys are restored over the result of `config.state`
+- State stored by an older `version` is passed through each newer migration in order
+- Tests can replace a storage with `setPersistStorage("local", createMemoryStorage())`
+*/
+import { PersistOptions, StateSaver, StorageLike } from "./pure-ui-actions.types";
+
+type Stored = { version: number; state: Record<string, unknown> };
+
+const storageOverrides: Partial<Record<"local" | "session", StorageLike>> = {};
+
+export function setPersistStorage(type: "local" | "session", storage?: StorageLike): void {
+  storageOverrides[type] = storage;
+}
+
+export function createMemoryStorage(): StorageLike {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key): string | null => items.get(key) ?? null,
+    setItem: (key, value): void => {
+      items.set(key, String(value));
+    },
+    removeItem: (key): void => {
+      items.delete(key);
+    }
+  };
+}
+
+function getStorage(storage: PersistOptions["storage"] = "local"): StorageLike | undefined {
+  if (typeof storage === "object") {
+    return storage;
+  }
+  if (storageOverrides[storage]) {
+    return storageOverrides[storage];
+  }
+  // Storage is unavailable outside the browser, or when blocked by privacy settings
+  try {
+    if (typeof window !== "undefined") {
+      return storage === "session" ? window.sessionStorage : window.localStorage;
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+// Returns `state` with any persisted keys restored
+export function restoreState(
+  id: string,
+  options: PersistOptions,
+  state?: Record<string, unknown>
+): Record<string, unknown> | undefined {
+  const { key = id, version = 1, migrations = {} } = options;
+  let stored: Stored;
+  try {
+    const item = getStorage(options.storage)?.getItem(key);
+    if (!item) return state;
+    stored = JSON.parse(item);
+  } catch {
+    return state;
+  }
+  // State from a newer version can't be read
+  if (!stored || typeof stored.version !== "number" || stored.version > version) {
+    return state;
+  }
+
+  let persisted = stored.state;
+  for (let v = stored.version + 1; v <= version; v++) {
+    if (migrations[v]) {
+      persisted = migrations[v](persisted);
+    }
+  }
+  return { ...state, ...pickKeys(persisted, options.keys) };
+}
+
+export function createStateSaver(id: string, options: PersistOptions): StateSaver {
+  const { key = id, version = 1, debounce } = options;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pending: Record<string, unknown> | undefined;
+
+  const write = (state?: Record<string, unknown>): void => {
+    try {
+      const stored: Stored = { version, state: pickKeys(state ?? {}, options.keys) };
+      getStorage(options.storage)?.setItem(key, JSON.stringify(stored));
+    } catch {
+      // Quota exceeded or storage unavailable, state still works in memory
+    }
+  };
+
+  // Writes a pending save before the page is unloaded, listening only while one is pending
+  const onPageHide = (): void => save.flush();
+
+  const save = (state?: Record<string, unknown>): void => {
+    if (!debounce) {
+      write(state);
+      return;
+    }
+    if (timer === undefined && typeof window !== "undefined") {
+      window.addEventListener("pagehide", onPageHide);
+    }
+    pending = state;
+    clearTimeout(timer);
+    timer = setTimeout(save.flush, debounce);
+  };
+
+  save.flush = (): void => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (typeof window !== "undefined") {
+      window.removeEventListener("pagehide", onPageHide);
+    }
+    if (pending) {
+      write(pending);
+      pending = undefined;
+    }
+  };
+
+  return save;
+}
+
+export function pickKeys(
+  state: Record<string, unknown>,
+  keys?: PropertyKey[]
+): Record<string, unknown> {
+  if (!keys) return state;
+  return Object.fromEntries(
+    keys.filter((k) => String(k) in state).map((k) => [String(k), state[String(k)]])
+  );
+}
@@ -0,0 +1,161 @@
+import { vi } from "vitest";
+import {
+  _setTestKey,
+  component,
+  getProfile,
+  html,
+  mount,
+  replay,
+  resetProfile,
+  startProfiling,
+  stopProfiling
+} from "./pure-ui-actions";
+const { div } = html;
+const testKey = _setTestKey({});
+
+describe("Profiler", () => {
+  let appAction: Function;
+  let childAction: Function;
+
+  type ChildComponent = {
+    Props: { label: string };
+    State: { clicks: number };
+    ActionPayloads: { Click: null };
+  };
+
+  const child = component<ChildComponent>(({ action }) => {
+    childAction = action;
+    return {
+      state: () => ({ clicks: 0 }),
+      actions: {
+        Click: (_, { state }) => ({ state: { clicks: state.clicks + 1 } })
+      },
+      view: (id, { props, state }) => div(`#${id}`, `${props.label} ${state.clicks}`)
+    };
+  });
+
+  type AppComponent = {
+    State: { count: number; label: string };
+    ActionPayloads: { Increment: null; Rename: { label: string } };
+  };
+
+  const app = component<AppComponent>(({ action }) => {
+    appAction = action;
+    return {
+      state: () => ({ count: 0, label: "a" }),
+      actions: {
+        Increment: (_, { state }) => ({ state: { ...state, count: state.count + 1 } }),
+        Rename: ({ label }, { state }) => ({ state: { ...state, label } })
+      },
+      view: (id, { state }) =>
+        div(`#${id}`, [String(state.count), child("child", { label: state.label })])
+    };
+  });
+
+  beforeEach(() => {
+    resetProfile();
+    startProfiling();
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  afterEach(() => {
+    stopProfiling();
+    vi.restoreAllMocks();
+  });
+
+  it("should time each action", () => {
+    mount({ app, props: {} });
+    appAction("Increment")(testKey);
+    appAction("Increment")(testKey);
+
+    const { actions } = getProfile();
+    expect(Object.keys(actions)).toEqual(["app/Increment"]);
+    expect(actions["app/Increment"].count).toBe(2);
+    expect(actions["app/Increment"].total).toBeGreaterThanOrEqual(actions["app/Increment"].max);
+  });
+
+  it("should time a replayed action that throws once", async () => {
+    const failing = component<{ State: { count: number }; ActionPayloads: { Fail: null } }>(() => ({
+      state: () => ({ count: 0 }),
+      actions: {
+        Fail: () => {
+          throw Error("No event");
+        }
+      },
+      view: (id, { state }) => div(`#${id}`, String(state.count))
+    }));
+    await replay({
+      app: failing,
+      recording: {
+        rootId: "app",
+        props: {},
+        events: [{ type: "action", id: "app", action: "Fail", external: true, state: { count: 1 } }]
+      }
+    });
+
+    expect(getProfile().actions["app/Fail"].count).toBe(1);
+  });
+
+  it("should count renders and time views by component", () => {
+    mount({ app, props: {} });
+    childAction("Click")(testKey);
+
+    const { components } = getProfile();
+    expect(components.app.renders).toBe(2);
+    expect(components.child.renders).toBe(2);
+    expect(components.child.view.count).toBe(2);
+  });
+
+  it("should time patches", () => {
+    mount({ app, props: {} });
+    appAction("Increment")(testKey);
+    expect(getProfile().patches.count).toBe(2);
+  });
+
+  it("should flag renders without a prop or state change", () => {
+    mount({ app, props: {} });
+    appAction("Increment")(testKey);
+    appAction("Rename", { label: "b" })(testKey);
+
+    const { components } = getProfile();
+    expect(components.app.unchangedRenders).toBe(0);
+    // Only the render after `Increment` had the same props and state
+    expect(components.child.unchangedRenders).toBe(1);
+  });
+
+  it("should add performance measures", () => {
+    const measure = vi.spyOn(performance, "measure");
+    mount({ app, props: {} });
+    appAction("Increment")(testKey);
+
+    const names = measure.mock.calls.map(([name]) => name);
+    expect(names).toContain("pure-ui-actions action app/Increment");
+    expect(names).toContain("pure-ui-actions view #child");
+    expect(names).toContain("pure-ui-actions patch");
+  });
+
+  it("should not add performance measures without the timeline option", () => {
+    startProfiling({ timeline: false });
+    const measure = vi.spyOn(performance, "measure");
+    mount({ app, props: {} });
+    expect(measure).not.toHaveBeenCalled();
+    expect(getProfile().patches.count).toBe(1);
+  });
+
+  it("should not record once stopped", () => {
+    mount({ app, props: {} });
+    stopProfiling();
+    appAction("Increment")(testKey);
+    expect(getProfile().actions).toEqual({});
+  });
+
+  it("should clear the profile on reset", () => {
+    mount({ app, props: {} });
+    resetProfile();
+    expect(getProfile()).toEqual({
+      actions: {},
+      components: {},
+      patches: { count: 0, total: 0, average: 0, max: 0 }
+    });
+  });
+});
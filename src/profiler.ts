@@ -0,0 +1,144 @@
+/*
+Optional profiling of actions, views and patches
+- `startProfiling()` records durations until `stopProfiling()`, and `getProfile()` returns a summary
+- Components rendered again with the same props and state are counted as `unchangedRenders`
+- With `timeline` (default), `performance.measure` entries are added for the browser's performance panel
+*/
+
+export type Timing = {
+  count: number;
+  // Durations in ms
+  total: number;
+  average: number;
+  max: number;
+};
+
+export type ComponentProfile = {
+  renders: number;
+  // Renders with shallowly equal props and the same state as the previous render
+  unchangedRenders: number;
+  view: Timing;
+};
+
+export type Profile = {
+  // By `<componentId>/<ActionName>`
+  actions: Record<string, Timing>;
+  // By component id
+  components: Record<string, ComponentProfile>;
+  patches: Timing;
+};
+
+export type ProfilerOptions = {
+  // Add `performance.mark` and `performance.measure` entries, defaults to true
+  timeline?: boolean;
+};
+
+type Rendered = { props?: Record<string, unknown>; state?: Record<string, unknown> };
+
+let enabled = false;
+let timeline = true;
+// Keeps marks unique when timers of the same name are nested
+let markId = 0;
+let profile: Profile = createProfile();
+// Props and state of each component's previous render
+const lastRenders = new Map<string, Rendered>();
+
+const noop = (): void => {};
+
+function createProfile(): Profile {
+  return { actions: {}, components: {}, patches: createTiming() };
+}
+
+function createTiming(): Timing {
+  return { count: 0, total: 0, average: 0, max: 0 };
+}
+
+export function startProfiling(options: ProfilerOptions = {}): void {
+  enabled = true;
+  timeline = options.timeline ?? true;
+}
+
+export function stopProfiling(): void {
+  enabled = false;
+}
+
+export function resetProfile(): void {
+  profile = createProfile();
+  lastRenders.clear();
+}
+
+// Returns a copy of everything recorded since the last reset
+export function getProfile(): Profile {
+  return JSON.parse(JSON.stringify(profile));
+}
+
+// Starts timing an action, returning a function that ends it
+export function profileAction(id: string, actionName: string): () => void {
+  if (!enabled) return noop;
+  const name = `${id}/${actionName}`;
+  return startTimer(`action ${name}`, (ms) => {
+    profile.actions[name] = addTime(profile.actions[name] ?? createTiming(), ms);
+  });
+}
+
+// Starts timing a component's view, returning a function that ends it
+export function profileView(
+  id: string,
+  props?: Record<string, unknown>,
+  state?: Record<string, unknown>
+): () => void {
+  if (!enabled) return noop;
+  const component = (profile.components[id] ??= {
+    renders: 0,
+    unchangedRenders: 0,
+    view: createTiming()
+  });
+  const last = lastRenders.get(id);
+  component.renders++;
+  if (last && last.state === state && shallowEqual(last.props, props)) {
+    component.unchangedRenders++;
+  }
+  lastRenders.set(id, { props, state });
+
+  return startTimer(`view #${id}`, (ms) => {
+    addTime(component.view, ms);
+  });
+}
+
+// Starts timing a patch, returning a function that ends it
+export function profilePatch(): () => void {
+  if (!enabled) return noop;
+  return startTimer("patch", (ms) => {
+    addTime(profile.patches, ms);
+  });
+}
+
+function startTimer(label: string, record: (ms: number) => void): () => void {
+  const name = `pure-ui-actions ${label}`;
+  const start = performance.now();
+  const withTimeline = timeline && typeof performance.mark === "function";
+  const mark = `${name} ${markId++}`;
+  if (withTimeline) {
+    performance.mark(mark);
+  }
+  return () => {
+    record(performance.now() - start);
+    if (withTimeline) {
+      performance.measure(name, mark);
+      performance.clearMarks(mark);
+    }
+  };
+}
+
+function addTime(timing: Timing, ms: number): Timing {
+  timing.count++;
+  timing.total += ms;
+  timing.average = timing.total / timing.count;
+  timing.max = Math.max(timing.max, ms);
+  return timing;
+}
+
+function shallowEqual(a: Record<string, unknown> = {}, b: Record<string, unknown> = {}): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k]);
+}
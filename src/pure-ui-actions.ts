@@ -1,140 +1,292 @@
-import { patch, setHook, VNode } from "./vdom";
+import { h, patch, setHook, VNode } from "./vdom";
 export { html, VNode, memo, setHook } from "./vdom";
 import { log } from "./log";
+import { toHTML } from "./to-html";
+import { hydrate as hydrateElement } from "./hydrate";
+import { withTiming } from "./timing";
+import { setDetachedRenderer } from "./render-detached";
+import { createStateSaver, restoreState } from "./persist";
+import { getHistoryAction, getHistoryContext, recordHistory } from "./history";
+import { profileAction, profilePatch, profileView } from "./profiler";
+import {
+  createRecorder,
+  createReplayer,
+  deliverTaskResult,
+  recordAction,
+  recordActionState,
+  Recording,
+  recordPersistedState,
+  recordTaskResult,
+  replayPersistedState,
+  replayTask,
+  startRun
+} from "./recording";
 import {
   ActionThunk,
+  AppInstance,
+  AppState,
   Component,
   ComponentInstance,
+  EventDetailArgs,
+  EventMap,
   GetActionThunk,
   GetConfig,
   GetTaskThunk,
+  MountTestApi,
   Next,
+  PersistOptions,
   RunAction,
+  Subscription,
   TaskThunk,
+  ThunkTiming,
   ThunkType
 } from "./pure-ui-actions.types";
 export * from "./component-test";
+export { toHTML } from "./to-html";
+export { appEvent, interval, mediaQuery, windowEvent } from "./subscriptions";
+export { createEventBus } from "./events";
+export type { EventBus } from "./events";
+export { viewSnapshotSerializer } from "./view-test";
+export type { ViewNode } from "./view-test";
+export { createMemoryStorage, setPersistStorage } from "./persist";
+export { addLogger, consoleLogger, devToolsLogger, errorLogger, setLogger } from "./log";
+export type { Logger, LogEvent } from "./log";
+export { getProfile, resetProfile, startProfiling, stopProfiling } from "./profiler";
+export type { ComponentProfile, Profile, ProfilerOptions, Timing } from "./profiler";
+export type { RecordedAction, RecordedTaskResult, Recording } from "./recording";
+export { createRouter } from "./router";
+export type {
+  NavigateData,
+  PathParams,
+  Query,
+  Route,
+  RouteDefinition,
+  RoutePath,
+  Router,
+  RouterOptions,
+  Routes,
+  RouteTarget,
+  Transition,
+  TransitionState
+} from "./router";
 export {
   ActionHandler,
   ActionThunk,
+  AppInstance,
   Component,
   ComponentInstance,
   Config,
   Context,
+  EventDetailArgs,
+  EventMap,
+  FakeTaskResult,
   GetActionThunk,
   GetConfig,
   GetTaskThunk,
+  HistoryActionPayloads,
+  HistoryOptions,
+  MountTestApi,
   Next,
+  PersistOptions,
   RunAction,
+  StorageLike,
+  Subscription,
   Task,
+  TaskConcurrency,
+  TaskContext,
   TaskHandler,
   TaskThunk,
+  ThunkTiming,
   ThunkType
 } from "./pure-ui-actions.types";
 
-const componentRegistry = new Map<string, ComponentInstance>();
-export const getComponentRegistry = (): Map<string, ComponentInstance> => componentRegistry;
-
-const actionThunkCache = new Map<string, ActionThunk>();
-const taskThunkCache = new Map<string, TaskThunk>();
+// Root component id used when `mount` has no target
+const defaultRootId = "app";
+
+function createAppState(rootId = defaultRootId): AppState {
+  return {
+    rootId,
+    componentRegistry: new Map<string, ComponentInstance>(),
+    actionThunkCache: new Map<string, ActionThunk>(),
+    taskThunkCache: new Map<string, TaskThunk>(),
+    rootAction: undefined,
+    rootTask: undefined,
+    rootState: undefined,
+    renderingFromRoot: false,
+    stateChanged: false,
+    noRender: 0,
+    pendingMounts: [],
+    renderStack: [],
+    listeners: [],
+    unmounted: false,
+    serverRender: false,
+    timeTravelling: false,
+    nextDepth: 0
+  };
+}
 
-// Root component references
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let rootAction: GetActionThunk<any> | undefined;
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let rootTask: GetTaskThunk<any> | undefined;
-let rootState: Record<string, unknown> | undefined;
+// State of the app currently rendering or running an action
+// Outside of a render this is the most recently mounted app
+let currentApp = createAppState();
 
-// Render cycle state
-let renderingFromRoot = false;
-let stateChanged = false;
-let noRender = 0;
+// Apps mounted and not yet unmounted, for restoring state from Redux DevTools
+const mountedApps = new Set<AppState>();
 
-const appId = "app";
+// Thunks and hooks switch to the app they were created in, so apps never share state
+function runInApp<TResult>(app: AppState, fn: () => TResult): TResult {
+  const prevApp = currentApp;
+  currentApp = app;
+  try {
+    return fn();
+  } catch (err) {
+    // Errors escaping outside of a view would otherwise leave the render cycle incomplete
+    if (!app.renderStack.length) {
+      resetRenderFlags(app);
+    }
+    throw err;
+  } finally {
+    currentApp = prevApp;
+  }
+}
 
-function resetAppState(): void {
-  componentRegistry.clear();
-  actionThunkCache.clear();
-  taskThunkCache.clear();
+function resetRenderFlags(app: AppState): void {
+  app.renderingFromRoot = false;
+  app.stateChanged = false;
+  app.noRender = 0;
+  app.componentRegistry.forEach((instance) => {
+    instance.inCurrentRender = false;
+  });
+}
 
-  rootAction = undefined;
-  rootTask = undefined;
-  rootState = undefined;
+export const getComponentRegistry = (): Map<string, ComponentInstance> =>
+  currentApp.componentRegistry;
 
-  renderingFromRoot = false;
-  stateChanged = false;
-  noRender = 0;
+function resetAppState(): void {
+  currentApp = createAppState();
 }
 
 // Test utilities
 let internalKey = {};
 export const _setTestKey = <T extends object>(k: T): T => (internalKey = k);
 export const _resetForTest = resetAppState;
+setDetachedRenderer((render, { rootState, rootAction, rootTask }) => {
+  const app = createAppState();
+  app.serverRender = true;
+  app.rootState = rootState;
+  app.rootAction = rootAction as AppState["rootAction"];
+  app.rootTask = rootTask as AppState["rootTask"];
+  return runInApp(app, render);
+});
 
 // Helper to create stable cache keys
-function createCacheKey(id: string, name: string, data: unknown): string {
+function createCacheKey(id: string, name: string, data: unknown, timing?: ThunkTiming): string {
   const dataKey = data === null || data === undefined ? "" : JSON.stringify(data);
-  return `${id}:${name}:${dataKey}`;
+  return `${id}:${name}:${dataKey}${timing ? `:${JSON.stringify(timing)}` : ""}`;
 }
 
 // Action thunk creator with memoization
-function createActionThunk(componentId: string, actionName: string, data: unknown): ActionThunk {
-  const cacheKey = createCacheKey(componentId, actionName, data);
+function createActionThunk(
+  app: AppState,
+  componentId: string,
+  actionName: string,
+  data: unknown,
+  timing?: ThunkTiming
+): ActionThunk {
+  const cacheKey = createCacheKey(componentId, actionName, data, timing);
 
-  const cached = actionThunkCache.get(cacheKey);
+  const cached = app.actionThunkCache.get(cacheKey);
   if (cached) {
     return cached;
   }
 
+  const run = (thunkInput?: Record<string, unknown> | Event, fromNext = false): void => {
+    const instance = app.componentRegistry.get(componentId);
+    if (!instance) {
+      throw Error(`Component ${componentId} not found in registry`);
+    }
+    const event = isDomEvent(thunkInput) ? thunkInput : undefined;
+    // Timed runs of a Next are deferred, and still belong to the chain that scheduled them
+    const depth = fromNext ? 1 : 0;
+    app.nextDepth += depth;
+    try {
+      runInApp(app, () => executeAction(instance, actionName, data, event));
+    } finally {
+      app.nextDepth -= depth;
+    }
+  };
+  const timedRun = timing && withTiming(run, timing);
+
   const actionThunk: {
     (thunkInput?: Record<string, unknown> | Event): void | ActionThunk;
     type: ThunkType.Action;
+    timing?: ThunkTiming;
+    cancel?: () => void;
   } = (thunkInput) => {
-    if (isDomEvent(thunkInput)) {
-      const instance = componentRegistry.get(componentId);
-      if (!instance) {
-        throw Error(`Component ${componentId} not found in registry`);
-      }
-      executeAction(instance, actionName, data, thunkInput as Event);
-    } else if (thunkInput === internalKey) {
-      const instance = componentRegistry.get(componentId);
-      if (!instance) {
-        throw Error(`Component ${componentId} not found in registry`);
+    if (isDomEvent(thunkInput) || thunkInput === internalKey) {
+      if (timedRun) {
+        timedRun(thunkInput, app.nextDepth > 0);
+      } else {
+        run(thunkInput);
       }
-      executeAction(instance, actionName, data);
     } else {
       log.manualError(componentId, actionName);
     }
   };
 
   actionThunk.type = ThunkType.Action;
-  actionThunkCache.set(cacheKey, actionThunk);
+  if (timedRun) {
+    actionThunk.timing = timing;
+    actionThunk.cancel = timedRun.cancel;
+  }
+  app.actionThunkCache.set(cacheKey, actionThunk);
   return actionThunk;
 }
 
 // Task thunk creator with memoization
-function createTaskThunk(componentId: string, taskName: string, data: unknown): TaskThunk {
-  const cacheKey = createCacheKey(componentId, taskName, data);
+function createTaskThunk(
+  app: AppState,
+  componentId: string,
+  taskName: string,
+  data: unknown,
+  timing?: ThunkTiming
+): TaskThunk {
+  const cacheKey = createCacheKey(componentId, taskName, data, timing);
 
-  const cached = taskThunkCache.get(cacheKey);
+  const cached = app.taskThunkCache.get(cacheKey);
   if (cached) {
     return cached;
   }
 
+  // Defer instance lookup until thunk is actually invoked
+  const run = (): Promise<void> => {
+    const instance = app.componentRegistry.get(componentId);
+    if (!instance) {
+      throw Error(`Component ${componentId} not found in registry`);
+    }
+    const result = runInApp(app, () => performTask(instance, taskName, data));
+    return result.then((next?: Next) => {
+      // Results arriving after `unmount` are ignored
+      if (!app.unmounted) {
+        runInApp(app, () => runNext(instance, next));
+      }
+    });
+  };
+  const timedRun = timing && withTiming(run, timing);
+
   const taskThunk: {
     (thunkInput?: Record<string, unknown> | Event): Promise<Next | void> | void;
     type: ThunkType.Task;
     taskName: string;
     taskData?: unknown;
+    timing?: ThunkTiming;
+    cancel?: () => void;
   } = (thunkInput) => {
-    // Defer instance lookup until thunk is actually invoked
-    if (isDomEvent(thunkInput) || thunkInput === internalKey) {
-      const instance = componentRegistry.get(componentId);
-      if (!instance) {
-        throw Error(`Component ${componentId} not found in registry`);
-      }
-      const result = performTask(instance, taskName, data);
-      return result.then((next?: Next) => runNext(instance, next));
+    if (app.serverRender || app.timeTravelling) {
+      // Tasks are effects, so they only run in the browser, and not while restoring past state
+      return;
+    } else if (isDomEvent(thunkInput) || thunkInput === internalKey) {
+      // Timed runs are deferred, so there is no result to return
+      return timedRun ? timedRun() : run();
     } else {
       log.manualError(componentId, taskName);
     }
@@ -143,49 +295,87 @@ function createTaskThunk(componentId: string, taskName: string, data: unknown):
   taskThunk.type = ThunkType.Task;
   taskThunk.taskName = String(taskName);
   taskThunk.taskData = data;
-  taskThunkCache.set(cacheKey, taskThunk);
+  if (timedRun) {
+    taskThunk.timing = timing;
+    taskThunk.cancel = timedRun.cancel;
+  }
+  app.taskThunkCache.set(cacheKey, taskThunk);
   return taskThunk;
 }
 
+// `replayedState` is the recorded state of an action that read its event, see `recording.ts`
 function executeAction(
   instance: ComponentInstance,
   actionName: string,
   data: unknown,
-  event?: Event
+  event?: Event,
+  replayedState?: unknown
 ): void {
   const { config, state: prevState, props, isRoot, id } = instance;
-  const actions = config.actions;
+  const handler = config.actions?.[actionName] ?? getHistoryAction(instance, actionName);
 
-  if (!actions || !actions[actionName]) {
+  if (!handler) {
     return;
   }
 
+  const recorded =
+    currentApp.recorder &&
+    recordAction(currentApp.recorder, id, actionName, data, !currentApp.nextDepth);
+
   let next: Next;
+  let readEvent = false;
   const prevStateFrozen = deepFreeze(prevState);
+  log.actionStart(id, actionName, data as Record<string, unknown>, prevState);
+  const endProfile = profileAction(id, actionName);
 
-  ({ state: instance.state, next } = actions[actionName](data as Record<string, unknown>, {
+  const context = {
     props: props ?? {},
     state: prevStateFrozen ?? {},
-    rootState: rootState ?? {},
+    rootState: currentApp.rootState ?? {},
     event
-  }));
+  };
+  if (recorded && event) {
+    Object.defineProperty(context, "event", {
+      enumerable: true,
+      get: () => {
+        readEvent = true;
+        return event;
+      }
+    });
+  }
 
-  const currStateChanged = instance.state !== prevState;
-  stateChanged = stateChanged || currStateChanged;
-  log.updateStart(
-    id,
-    currStateChanged ? prevState : undefined,
-    actionName,
-    data as Record<string, unknown>,
-    instance.state
-  );
+  try {
+    ({ state: instance.state, next } = handler(data as Record<string, unknown>, context));
+  } catch (err) {
+    // Without its event the action may throw on replay, the recorded state still applies
+    if (replayedState === undefined) {
+      catchError(instance, err);
+      return;
+    }
+  } finally {
+    endProfile();
+  }
+  if (replayedState !== undefined) {
+    instance.state = replayedState as Record<string, unknown>;
+  }
+  if (recorded && readEvent) {
+    recordActionState(recorded, instance.state);
+  }
 
-  if (isRoot) {
-    rootState = instance.state;
+  const currStateChanged = instance.state !== prevState;
+  if (currStateChanged) {
+    instance.saveState?.(instance.state);
+    recordHistory(instance, prevState, actionName);
+  }
+  if (currStateChanged && instance.error && !instance.handlingError) {
+    // Render the boundary's view again
+    instance.error = undefined;
   }
+  currentApp.stateChanged = currentApp.stateChanged || currStateChanged;
+  log.actionEnd(id, actionName, data as Record<string, unknown>, prevState, instance.state);
 
-  if (currStateChanged && instance.state) {
-    log.updateEnd(instance.state);
+  if (isRoot) {
+    currentApp.rootState = instance.state;
   }
   runNext(instance, next);
 }
@@ -197,49 +387,141 @@ function performTask(
 ): Promise<Next | undefined> {
   const { config, state, props, id } = instance;
   const tasks = config.tasks;
+  // Callbacks may run after another app has rendered, so keep a reference to this one
+  const app = currentApp;
 
   if (!tasks || !tasks[taskName]) {
     throw Error(`Task ${taskName} not found in component ${id}`);
   }
 
-  const { perform, success, failure } = tasks[taskName](data);
+  const element = getElement(instance);
+  const {
+    perform,
+    success,
+    failure,
+    concurrency = "parallel"
+  } = tasks[taskName](data, { element });
   const runSuccess = (result: unknown): Next | undefined =>
     success &&
-    success(result, {
-      props: props ?? {},
-      state: state ?? {},
-      rootState: rootState ?? {}
-    });
+    runCallback(instance, () =>
+      success(result, {
+        props: props ?? {},
+        state: state ?? {},
+        rootState: app.rootState ?? {},
+        element
+      })
+    );
   const runFailure = (err: unknown): Next | undefined =>
     failure &&
-    failure(err, {
-      props: props ?? {},
-      state: state ?? {},
-      rootState: rootState ?? {}
-    });
+    runCallback(instance, () =>
+      failure(err, {
+        props: props ?? {},
+        state: state ?? {},
+        rootState: app.rootState ?? {},
+        element
+      })
+    );
+
+  // Concurrency applies to runs of the same task in this component
+  const running = instance.runningTasks.get(taskName) ?? [];
+  if (concurrency === "takeFirst" && running.length) {
+    log.taskDrop(id, String(taskName));
+    return Promise.resolve(undefined);
+  }
+  if (concurrency === "takeLatest") {
+    running.forEach((run) => abortTask(instance, taskName, run.controller));
+  }
 
-  try {
-    const output = perform();
-    log.taskPerform(id, String(taskName), isPromise(output));
-
-    if (isPromise(output)) {
-      renderComponentInstance(instance); // Render pending state updates
-      return output
-        .then((result: unknown) => {
-          log.taskSuccess(id, String(taskName));
-          return runSuccess(result);
-        })
-        .catch((err: unknown) => {
-          log.taskFailure(id, String(taskName), err);
-          return runFailure(err);
-        });
+  const controller = new AbortController();
+  const { signal } = controller;
+
+  const start = (): Promise<Next | undefined> => {
+    // Runs are counted when recording or replaying, to match results to runs
+    const session = app.recorder ?? app.replayer;
+    const taskRun = session ? startRun(session, id, String(taskName)) : 0;
+    const record = (sync: boolean, outcome: { result: unknown } | { error: unknown }): void => {
+      if (app.recorder) {
+        recordTaskResult(app.recorder, id, String(taskName), taskRun, sync, outcome);
+      }
+    };
+    try {
+      const fake = app.fakeTasks?.get(`${id}/${String(taskName)}`);
+      const output = app.replayer
+        ? replayTask(app.replayer, id, String(taskName), taskRun)
+        : fake
+          ? "error" in fake
+            ? Promise.reject(fake.error)
+            : Promise.resolve(fake.result)
+          : perform(signal);
+      log.taskPerform(id, String(taskName), isPromise(output));
+
+      if (isPromise(output)) {
+        renderComponentInstance(instance); // Render pending state updates
+        return output
+          .then((result: unknown) => {
+            // Results of aborted tasks are ignored
+            if (signal.aborted) return;
+            log.taskSuccess(id, String(taskName));
+            record(false, { result });
+            return runSuccess(result);
+          })
+          .catch((err: unknown) => {
+            if (signal.aborted) return;
+            log.taskFailure(id, String(taskName), err);
+            record(false, { error: err });
+            return runFailure(err);
+          });
+      } else {
+        log.taskSuccess(id, String(taskName));
+        record(true, { result: output });
+        return Promise.resolve(runSuccess(output));
+      }
+    } catch (err) {
+      log.taskFailure(id, String(taskName), err as Error);
+      record(true, { error: err });
+      return Promise.resolve(runFailure(err));
+    }
+  };
+
+  let result: Promise<Next | undefined>;
+  const prevRun = running[running.length - 1];
+  if (concurrency === "queue" && prevRun) {
+    renderComponentInstance(instance); // Render pending state updates
+    result = prevRun.done.then(() => (signal.aborted ? undefined : runInApp(app, () => start())));
+  } else {
+    result = start();
+  }
+
+  const run = { controller, done: result.catch(() => undefined) };
+  instance.runningTasks.set(taskName, [...running, run]);
+  run.done.then(() => {
+    const runs = (instance.runningTasks.get(taskName) ?? []).filter((r) => r !== run);
+    if (runs.length) {
+      instance.runningTasks.set(taskName, runs);
     } else {
-      log.taskSuccess(id, String(taskName));
-      return Promise.resolve(runSuccess(output));
+      instance.runningTasks.delete(taskName);
     }
+  });
+  return result;
+}
+
+// Errors in task callbacks go to the nearest error boundary
+function runCallback(instance: ComponentInstance, callback: () => Next): Next | undefined {
+  try {
+    return callback();
   } catch (err) {
-    log.taskFailure(id, String(taskName), err as Error);
-    return Promise.resolve(runFailure(err));
+    catchError(instance, err);
+  }
+}
+
+function abortTask(
+  instance: ComponentInstance,
+  taskName: string,
+  controller: AbortController
+): void {
+  if (!controller.signal.aborted) {
+    controller.abort();
+    log.taskAbort(instance.id, taskName);
   }
 }
 
@@ -250,28 +532,35 @@ function runNext(instance: ComponentInstance, next: Next | undefined): void {
   } else if (isThunk(next)) {
     // Thunks may only be invoked here or from the DOM
     // `internalKey` prevents any manual calls from outside
-    next(internalKey);
+    const app = currentApp;
+    app.nextDepth++;
+    try {
+      next(internalKey);
+    } finally {
+      app.nextDepth--;
+    }
   } else if (Array.isArray(next)) {
-    noRender++;
+    currentApp.noRender++;
     next.forEach((n: Next) => runNext(instance, n));
-    noRender--;
+    currentApp.noRender--;
     renderComponentInstance(instance);
   }
 }
 
 // Render function - always renders from root to keep vnode tree consistent
 function renderComponentInstance(instance: ComponentInstance): VNode | undefined {
-  if (!noRender && (stateChanged || instance.props !== instance.prevProps)) {
+  const app = currentApp;
+  if (!app.noRender && (app.stateChanged || instance.props !== instance.prevProps)) {
     // Determine if this component should start the render cycle
     let isRenderRoot = false;
-    if (!renderingFromRoot) {
+    if (!app.renderingFromRoot) {
       // Redirect to app root if it exists and we're not it
-      const rootInstance = componentRegistry.get(appId);
+      const rootInstance = app.componentRegistry.get(app.rootId);
       if (rootInstance && !instance.isRoot) {
         return renderComponentInstance(rootInstance);
       }
       // Start render cycle from this component (app root, or no app in tests)
-      renderingFromRoot = true;
+      app.renderingFromRoot = true;
       isRenderRoot = true;
     }
 
@@ -279,26 +568,26 @@ function renderComponentInstance(instance: ComponentInstance): VNode | undefined
     instance.inCurrentRender = true;
 
     const prevVNode = instance.vnode;
-    instance.vnode = instance.config.view(instance.id, {
-      props: instance.props ?? {},
-      state: instance.state ?? {},
-      rootState: rootState ?? {}
-    });
+    instance.vnode = renderView(app, instance);
     log.render(instance.id, instance.props);
     log.setStateGlobal(instance.id, instance.state);
+    updateSubscriptions(app, instance);
 
     // Only the component that started the render cycle patches the DOM
     if (isRenderRoot && prevVNode) {
+      const endProfile = profilePatch();
       patch(prevVNode, instance.vnode);
+      endProfile();
       log.patch();
       publish("patch");
-      stateChanged = false;
-      renderingFromRoot = false;
+      app.stateChanged = false;
+      app.renderingFromRoot = false;
 
       // Reset render flags
-      Array.from(componentRegistry.values()).forEach((inst) => {
+      Array.from(app.componentRegistry.values()).forEach((inst) => {
         inst.inCurrentRender = false;
       });
+      runPendingMounts(app);
     }
 
     setCleanup(instance);
@@ -317,9 +606,9 @@ export function component<TComponent extends Component>(
     const id = (idStr || "").replace(/^#/, "");
 
     // Check if component exists in registry
-    const existing = componentRegistry.get(id);
+    const existing = currentApp.componentRegistry.get(id);
 
-    if (!id.length || (!noRender && existing && existing.inCurrentRender)) {
+    if (!id.length || (!currentApp.noRender && existing && existing.inCurrentRender)) {
       throw Error(`Component${id ? ` "${id}" ` : " "}must have a unique id!`);
     }
 
@@ -341,10 +630,11 @@ export function renderComponent<TComponent extends Component>(
   props?: TComponent["Props"]
 ): VNode {
   deepFreeze(props);
-  const isRoot = id === appId;
+  const app = currentApp;
+  const isRoot = id === app.rootId;
 
   // If component already exists, just render again
-  const existingRender = componentRegistry.get(id)?.render;
+  const existingRender = app.componentRegistry.get(id)?.render;
   if (existingRender) {
     const newVNode = existingRender(props);
     if (newVNode) {
@@ -352,22 +642,40 @@ export function renderComponent<TComponent extends Component>(
     }
   }
 
-  const action: GetActionThunk<TComponent["ActionPayloads"]> = (actionName, data): ActionThunk => {
-    return createActionThunk(id, String(actionName), data);
+  const action: GetActionThunk<TComponent["ActionPayloads"]> = (
+    actionName,
+    data,
+    timing
+  ): ActionThunk => {
+    return createActionThunk(app, id, String(actionName), data, timing);
   };
 
-  const task: GetTaskThunk<TComponent["TaskPayloads"]> = (taskName, data): TaskThunk => {
-    return createTaskThunk(id, String(taskName), data);
+  const task: GetTaskThunk<TComponent["TaskPayloads"]> = (taskName, data, timing): TaskThunk => {
+    return createTaskThunk(app, id, String(taskName), data, timing);
   };
 
   const config = getConfig({
     action,
     task,
-    rootAction: rootAction as GetActionThunk<TComponent["RootActionPayloads"]>,
-    rootTask: rootTask as GetTaskThunk<TComponent["RootTaskPayloads"]>
+    rootAction: app.rootAction as GetActionThunk<TComponent["RootActionPayloads"]>,
+    rootTask: app.rootTask as GetTaskThunk<TComponent["RootTaskPayloads"]>
   });
 
-  const state = config.state && config.state(props);
+  const state = getInitialState(app, id, () => {
+    const initialState = config.state && config.state(props);
+    if (!config.persist || app.serverRender) {
+      return initialState;
+    }
+    // A replay restores the recorded state rather than reading storage
+    if (app.replayer) {
+      return replayPersistedState(app.replayer, id) ?? initialState;
+    }
+    const restored = restoreState(id, config.persist as PersistOptions, initialState);
+    if (app.recorder) {
+      recordPersistedState(app.recorder, id, restored);
+    }
+    return restored;
+  });
 
   // Create component instance
   const instance: ComponentInstance = {
@@ -377,104 +685,618 @@ export function renderComponent<TComponent extends Component>(
     props,
     prevProps: undefined,
     render: (p) => {
-      const inst = componentRegistry.get(id);
+      const inst = app.componentRegistry.get(id);
       if (inst) {
         inst.props = p;
-        return renderComponentInstance(inst);
+        return runInApp(app, () => renderComponentInstance(inst));
       }
     },
     vnode: undefined,
     isRoot,
-    inCurrentRender: true
+    inCurrentRender: true,
+    mounted: false,
+    parentId: app.renderStack[app.renderStack.length - 1],
+    runningTasks: new Map(),
+    subscriptions: new Map(),
+    saveState:
+      config.persist && !app.serverRender && !app.replayer
+        ? createStateSaver(id, config.persist as PersistOptions)
+        : undefined
   };
 
-  componentRegistry.set(id, instance);
+  app.componentRegistry.set(id, instance);
 
-  if (config.init) {
-    noRender++;
+  // A restored past state already includes the effects of init
+  if (config.init && !app.timeTravelling) {
+    app.noRender++;
     runNext(instance, config.init);
-    noRender--;
+    app.noRender--;
   } else {
     log.noInitialAction(id, state);
   }
 
   if (isRoot) {
-    rootAction = action;
-    rootTask = task;
-    rootState = instance.state;
+    app.rootAction = action;
+    app.rootTask = task;
+    app.rootState = instance.state;
   }
 
-  log.render(id, props);
-  instance.vnode = config.view(id, {
-    props: props ?? {},
-    state: instance.state ?? {},
-    rootState: rootState ?? {}
-  });
+  // Server and detached renders are not logged, or added to `window.state`
+  if (!app.serverRender) {
+    log.render(id, props);
+  }
+  instance.vnode = renderView(app, instance);
   instance.prevProps = props;
 
   setCleanup(instance);
-  log.setStateGlobal(id, instance.state);
+  if (!app.serverRender) {
+    log.setStateGlobal(id, instance.state);
+  }
+  updateSubscriptions(app, instance);
 
   return instance.vnode;
 }
 
+// Calls the component's view, or for an error boundary, `catch.view` once an error is caught
+function renderView(app: AppState, instance: ComponentInstance): VNode {
+  const { config, id } = instance;
+  const ctx = {
+    props: instance.props ?? {},
+    state: instance.state ?? {},
+    rootState: app.rootState ?? {},
+    ...getHistoryContext(instance)
+  };
+  if (config.catch && instance.error) {
+    return config.catch.view(id, { ...ctx, error: instance.error.value });
+  }
+
+  const noRender = app.noRender;
+  app.renderStack.push(id);
+  const endProfile = profileView(id, instance.props, instance.state);
+  try {
+    return config.view(id, ctx);
+  } catch (err) {
+    if (!config.catch) throw err;
+
+    // Discard the partly rendered subtree
+    app.noRender = noRender;
+    getDescendants(app, id).forEach((desc) => {
+      desc.inCurrentRender = false;
+      removeInstance(app, desc.id);
+    });
+    handleError(app, instance, err);
+    return config.catch.view(id, { ...ctx, state: instance.state ?? {}, error: err });
+  } finally {
+    endProfile();
+    app.renderStack.pop();
+  }
+}
+
+// Passes an error to the nearest error boundary, rethrowing if there is none
+// Errors during a render are rethrown for the boundary rendering the subtree to catch
+function catchError(instance: ComponentInstance, err: unknown): void {
+  const app = currentApp;
+  let boundary: ComponentInstance | undefined = instance;
+  while (boundary && (!boundary.config.catch || boundary.handlingError)) {
+    boundary = boundary.parentId ? app.componentRegistry.get(boundary.parentId) : undefined;
+  }
+  if (!boundary || app.renderStack.length) {
+    throw err;
+  }
+  handleError(app, boundary, err);
+  app.stateChanged = true;
+  renderComponentInstance(boundary);
+}
+
+function handleError(app: AppState, boundary: ComponentInstance, err: unknown): void {
+  log.caughtError(boundary.id, err);
+  boundary.error = { value: err };
+  const next = boundary.config.catch?.onError?.(err);
+  if (next) {
+    boundary.handlingError = true;
+    app.noRender++;
+    try {
+      runNext(boundary, next);
+    } finally {
+      app.noRender--;
+      boundary.handlingError = false;
+    }
+  }
+}
+
+function getDescendants(app: AppState, id: string): ComponentInstance[] {
+  const children = Array.from(app.componentRegistry.values()).filter((i) => i.parentId === id);
+  return children.flatMap((child) => [...getDescendants(app, child.id), child]);
+}
+
 function setCleanup(instance: ComponentInstance): void {
   if (!instance.vnode) return;
+  const app = currentApp;
 
   setHook(instance.vnode, "destroy", () => {
-    const inst = componentRegistry.get(instance.id);
+    const inst = app.componentRegistry.get(instance.id);
     if (inst && !inst.inCurrentRender) {
-      componentRegistry.delete(instance.id);
+      removeInstance(app, instance.id);
+    }
+  });
 
-      // Clean up thunk caches
-      Array.from(actionThunkCache.keys()).forEach((key) => {
-        if (key.startsWith(`${instance.id}:`)) {
-          actionThunkCache.delete(key);
-        }
-      });
-      Array.from(taskThunkCache.keys()).forEach((key) => {
-        if (key.startsWith(`${instance.id}:`)) {
-          taskThunkCache.delete(key);
-        }
-      });
+  // Insert hooks run during the patch, so mounting is queued until it completes
+  if (!instance.mounted) {
+    const insert = instance.vnode.data?.hook?.insert;
+    setHook(instance.vnode, "insert", (vnode?: unknown) => {
+      insert?.(vnode as VNode);
+      app.pendingMounts.push(instance.id);
+    });
+  }
+}
 
-      log.setStateGlobal(instance.id, undefined);
+function runPendingMounts(app: AppState): void {
+  const ids = app.pendingMounts;
+  app.pendingMounts = [];
+  ids.forEach((id) => {
+    const instance = app.componentRegistry.get(id);
+    if (instance && !instance.mounted) {
+      instance.mounted = true;
+      log.mount(id, getElement(instance));
+      if (instance.config.onMount) {
+        runInApp(app, () => runNext(instance, instance.config.onMount));
+      }
     }
   });
 }
 
-export function mount<TActions, TProps>({
-  app,
-  props,
-  init
-}: {
+function getElement(instance: ComponentInstance): Element | undefined {
+  return instance.vnode?.elm as Element | undefined;
+}
+
+// Starts subscriptions that are new since the last render and stops those no longer returned
+function updateSubscriptions(app: AppState, instance: ComponentInstance): void {
+  const { config, id } = instance;
+  // Replayed apps receive recorded subscription actions instead
+  if (!config.subscriptions || app.serverRender || app.replayer) return;
+
+  const subscriptions = config
+    .subscriptions({
+      props: instance.props ?? {},
+      state: instance.state ?? {},
+      rootState: app.rootState ?? {}
+    })
+    .filter((sub): sub is Subscription => Boolean(sub));
+  const keys = new Set(subscriptions.map((sub) => sub.key));
+
+  Array.from(instance.subscriptions.keys()).forEach((key) => {
+    if (!keys.has(key)) stopSubscription(instance, key);
+  });
+
+  subscriptions.forEach(({ key, action, start }) => {
+    const running = instance.subscriptions.get(key);
+    if (running) {
+      // Already started, emit to the latest action
+      running.action = String(action);
+      return;
+    }
+    let starting = true;
+    const emit = (data?: Record<string, unknown>, event?: Event): void => {
+      // Values emitted while rendering are dispatched once the render completes
+      if (starting) {
+        Promise.resolve().then(() => emit(data, event));
+        return;
+      }
+      const inst = app.componentRegistry.get(id);
+      const sub = inst?.subscriptions.get(key);
+      if (inst && sub) {
+        runInApp(app, () => executeAction(inst, sub.action, data, event));
+      }
+    };
+    const sub = { action: String(action), stop: (): void => {} };
+    instance.subscriptions.set(key, sub);
+    log.subscriptionStart(id, key);
+    sub.stop = start(emit);
+    starting = false;
+  });
+}
+
+function stopSubscription(instance: ComponentInstance, key: string): void {
+  const sub = instance.subscriptions.get(key);
+  if (sub) {
+    instance.subscriptions.delete(key);
+    log.subscriptionStop(instance.id, key);
+    sub.stop();
+  }
+}
+
+function removeInstance(app: AppState, id: string): void {
+  const instance = app.componentRegistry.get(id);
+  if (instance) {
+    log.destroy(id, getElement(instance));
+  }
+  if (instance?.config.onDestroy) {
+    app.noRender++;
+    runInApp(app, () => runNext(instance, instance.config.onDestroy));
+    app.noRender--;
+  }
+
+  instance?.saveState?.flush();
+
+  // Abort tasks still running for the component, including any started by `onDestroy`
+  instance?.runningTasks.forEach((runs, taskName) =>
+    runs.forEach(({ controller }) => abortTask(instance, taskName, controller))
+  );
+  // Stop subscriptions
+  Array.from(instance?.subscriptions.keys() ?? []).forEach((key) =>
+    stopSubscription(instance as ComponentInstance, key)
+  );
+  app.componentRegistry.delete(id);
+
+  // Clean up thunk caches, cancelling any debounced or throttled calls
+  Array.from(app.actionThunkCache.entries()).forEach(([key, thunk]) => {
+    if (key.startsWith(`${id}:`)) {
+      thunk.cancel?.();
+      app.actionThunkCache.delete(key);
+    }
+  });
+  Array.from(app.taskThunkCache.entries()).forEach(([key, thunk]) => {
+    if (key.startsWith(`${id}:`)) {
+      thunk.cancel?.();
+      app.taskThunkCache.delete(key);
+    }
+  });
+
+  log.setStateGlobal(id, undefined);
+}
+
+type MountOptions<TActions, TProps> = {
   app: (idStr: string, props?: TProps) => VNode;
   props: TProps;
   init?: (runRootAction: RunAction<TActions>) => void;
-}): void {
-  resetAppState();
+  // Element or selector to mount into, defaults to the element with id "app"
+  target?: Element | string;
+  // Id of the root component, defaults to the target element's id
+  rootId?: string;
+  // Adopt server-rendered markup and state from `renderToString` instead of replacing it
+  hydrate?: boolean;
+  // Record props, actions and task results for `getRecording` and `replay`
+  record?: boolean;
+};
+
+export function mount<TActions, TProps>(
+  options: MountOptions<TActions, TProps>
+): AppInstance<TActions> {
+  return mountApp(options);
+}
+
+// Mounts a component into a detached element, for tests that run actions and tasks end to end
+export function mountTest<TComponent extends Component = Component, TProps = TComponent["Props"]>(
+  app: (idStr: string, props?: TProps) => VNode,
+  props?: TProps,
+  { id = defaultRootId }: { id?: string } = {}
+): MountTestApi<TComponent> {
+  const container = document.createElement("div");
+  const target = container.appendChild(document.createElement("div"));
+  let appState = currentApp;
+  const { unmount } = mountApp<unknown, TProps | undefined>(
+    { app, props, target, rootId: id },
+    (a) => {
+      appState = a;
+      a.fakeTasks = new Map();
+    }
+  );
+  const getInstance = (componentId: string): ComponentInstance => {
+    const instance = appState.componentRegistry.get(componentId);
+    if (!instance) {
+      throw Error(`Component ${componentId} not found in registry`);
+    }
+    return instance;
+  };
+
+  return {
+    container,
+
+    dispatch(name: PropertyKey, data?: unknown, componentId = id): void {
+      const instance = getInstance(componentId);
+      const actionName = String(name);
+      if (!instance.config.actions?.[actionName] && !getHistoryAction(instance, actionName)) {
+        throw Error(`Component "${componentId}" has no action "${actionName}"`);
+      }
+      createActionThunk(appState, componentId, actionName, data)(internalKey);
+    },
+
+    fakeTask(name, outcome, componentId = id): void {
+      appState.fakeTasks?.set(`${componentId}/${name}`, outcome);
+    },
+
+    async flush(): Promise<void> {
+      // Each pass lets task results and their Next run, which may start more tasks
+      for (let pass = 0; pass < 100; pass++) {
+        await new Promise((resolve) => setTimeout(resolve));
+        const running = Array.from(appState.componentRegistry.values()).filter(
+          (instance) => instance.runningTasks.size
+        );
+        if (!running.length) return;
+      }
+      throw Error("Tasks are still running, fake their results with `fakeTask`");
+    },
+
+    getState: (componentId = id) => getInstance(componentId).state,
+
+    getStates: () =>
+      Object.fromEntries(
+        Array.from(appState.componentRegistry.values()).map((instance) => [
+          instance.id,
+          instance.state
+        ])
+      ),
+
+    getComponentRegistry: () => appState.componentRegistry,
+
+    unmount
+  };
+}
+
+// Mounts an app from a recording made with `mount({ record: true })`, resolving once each
+// recorded action and task result has been replayed
+export async function replay<TActions, TProps>({
+  app,
+  recording,
+  target
+}: {
+  app: (idStr: string, props?: TProps) => VNode;
+  recording: Recording;
+  target?: Element | string;
+}): Promise<AppInstance<TActions>> {
+  const replayer = createReplayer(recording);
+  let appState = currentApp;
+  const appInstance = mountApp<TActions, TProps>(
+    { app, props: recording.props as TProps, target, rootId: recording.rootId },
+    (a) => {
+      appState = a;
+      a.replayer = replayer;
+    }
+  );
+
+  // Let callbacks and their Next run, as they would before the next event arrived
+  const settle = (): Promise<unknown> => new Promise((resolve) => setTimeout(resolve));
+
+  for (const event of recording.events) {
+    if (event.type === "action" && event.external) {
+      await settle();
+      const instance = appState.componentRegistry.get(event.id);
+      if (!instance) {
+        throw Error(`Replay diverged from the recording, component ${event.id} not found`);
+      }
+      runInApp(appState, () =>
+        executeAction(instance, event.action, event.data, undefined, event.state)
+      );
+    } else if (event.type === "task" && !event.sync) {
+      deliverTaskResult(replayer, event);
+      await settle();
+    }
+  }
+  await settle();
+  return appInstance;
+}
+
+function mountApp<TActions, TProps>(
+  { app, props, init, target, rootId, hydrate, record }: MountOptions<TActions, TProps>,
+  prepare?: (appState: AppState) => void
+): AppInstance<TActions> {
+  const appElement = getMountElement(target);
+  const appState = createAppState((rootId ?? (appElement.id || defaultRootId)).replace(/^#/, ""));
+  if (record) {
+    appState.recorder = createRecorder(appState.rootId, props);
+  }
+  prepare?.(appState);
+  // The latest mounted app is current for `getComponentRegistry()` and `renderComponent()`
+  currentApp = appState;
+  mountedApps.add(appState);
+
   // Mount the top-level app component
-  const appElement = document.getElementById(appId);
-  if (!appElement) {
-    throw Error(`Element with id "${appId}" not found`);
+  if (hydrate) {
+    appState.initialStates = readServerState(appState.rootId);
+    hydrateElement(appElement, app(appState.rootId, props));
+  } else {
+    const vnode = app(appState.rootId, props);
+    const endProfile = profilePatch();
+    patch(appElement, vnode);
+    endProfile();
   }
-  patch(appElement, app(appId, props));
   log.patch();
   publish("patch");
 
   // Reset render flags
-  Array.from(componentRegistry.values()).forEach((instance) => {
+  Array.from(appState.componentRegistry.values()).forEach((instance) => {
     instance.inCurrentRender = false;
   });
 
+  // The root element is patched in place rather than inserted when it matches the target
+  if (!appState.pendingMounts.includes(appState.rootId)) {
+    appState.pendingMounts.push(appState.rootId);
+  }
+  runPendingMounts(appState);
+
   // Manually invoking an action without `internalKey` is an error, so `runRootAction`
   // is provided by `mount` for wiring up events to root actions (e.g. routing)
+  const runRootAction: RunAction<TActions> = (actionName, data) => {
+    if (!appState.unmounted) {
+      appState.rootAction?.(actionName, data)(internalKey);
+    }
+  };
   if (init) {
-    const runRootAction: RunAction<TActions> = (actionName, data) => {
-      rootAction?.(actionName, data)(internalKey);
-    };
     init(runRootAction);
   }
+
+  return {
+    rootId: appState.rootId,
+    getComponentRegistry: () => appState.componentRegistry,
+    getRootState: () => appState.rootState,
+    getRecording: () => appState.recorder?.recording,
+    runRootAction,
+    subscribe(type, listener): () => void {
+      if (appState.unmounted) {
+        return () => {};
+      }
+      const entry = { type, listener: listener as EventListener };
+      appState.listeners.push(entry);
+      const stop = subscribe(type, listener);
+      return () => {
+        stop();
+        appState.listeners = appState.listeners.filter((l) => l !== entry);
+      };
+    },
+    unmount: () => unmountApp(appState)
+  };
+}
+
+// Render an app to HTML without a DOM, e.g. for pre-rendering pages in Node
+// State initialisation and synchronous init actions run, tasks are skipped
+export function renderToString<TProps>(
+  app: (idStr: string, props?: TProps) => VNode,
+  props: TProps,
+  {
+    rootId = defaultRootId,
+    includeState = false
+  }: {
+    rootId?: string;
+    // Embed initial component state in a script for `mount({ hydrate: true })`
+    includeState?: boolean;
+  } = {}
+): string {
+  const appState = createAppState(rootId.replace(/^#/, ""));
+  appState.serverRender = true;
+  appState.initialStates = {};
+  const html = toHTML(runInApp(appState, () => app(appState.rootId, props)));
+
+  if (!includeState) {
+    return html;
+  }
+  // Escape `<` so that state can't close the script element
+  const json = JSON.stringify(appState.initialStates).replace(/</g, "\\u003c");
+  return `${html}<script type="application/json" id="${getStateScriptId(appState.rootId)}">${json}</script>`;
+}
+
+// Initial state is recorded when rendering on the server, and restored when hydrating
+// Restored state replaces `config.state`, and init actions then run as on the server
+function getInitialState(
+  app: AppState,
+  id: string,
+  getState: () => Record<string, unknown> | undefined
+): Record<string, unknown> | undefined {
+  if (app.serverRender) {
+    const state = getState();
+    if (app.initialStates && state !== undefined) {
+      app.initialStates[id] = state;
+    }
+    return state;
+  }
+  if (app.initialStates && id in app.initialStates) {
+    const state = app.initialStates[id];
+    // Only the first render is restored, a component created again starts afresh
+    delete app.initialStates[id];
+    return state;
+  }
+  return getState();
+}
+
+function readServerState(rootId: string): Record<string, Record<string, unknown>> {
+  const script = document.getElementById(getStateScriptId(rootId));
+  try {
+    return script?.textContent ? JSON.parse(script.textContent) : {};
+  } catch {
+    log.hydrationMismatch(`#${getStateScriptId(rootId)}`, "invalid state JSON");
+    return {};
+  }
+}
+
+function getStateScriptId(rootId: string): string {
+  return `${rootId}-state`;
+}
+
+function unmountApp(app: AppState): void {
+  if (app.unmounted) return;
+  app.unmounted = true;
+  mountedApps.delete(app);
+
+  // Patch the root to an empty node, so child destroy hooks run and DOM listeners are removed
+  const rootVNode = app.componentRegistry.get(app.rootId)?.vnode;
+  app.componentRegistry.forEach((instance) => {
+    instance.inCurrentRender = false;
+  });
+  if (rootVNode) {
+    runInApp(app, () => patch(rootVNode, h(rootVNode.sel ?? "div")));
+  }
+
+  // Remove anything not reached by destroy hooks, including the root itself
+  Array.from(app.componentRegistry.keys()).forEach((id) => removeInstance(app, id));
+  app.actionThunkCache.clear();
+  app.taskThunkCache.clear();
+
+  app.listeners.forEach(({ type, listener }) => document.removeEventListener(type, listener));
+  app.listeners = [];
+
+  app.rootAction = undefined;
+  app.rootTask = undefined;
+  app.rootState = undefined;
+
+  log.unmount(app.rootId);
+}
+
+// Restores component state from a Redux DevTools snapshot, and renders each app again
+// Components created by the render start with their state from the snapshot
+function jumpToState(snapshot: Record<string, Record<string, unknown> | undefined>): void {
+  mountedApps.forEach((app) => {
+    const rootInstance = app.componentRegistry.get(app.rootId);
+    if (!rootInstance) return;
+
+    app.componentRegistry.forEach((instance) => {
+      if (instance.id in snapshot) {
+        instance.state = snapshot[instance.id];
+      }
+    });
+    app.rootState = rootInstance.state;
+    app.initialStates = { ...snapshot };
+    app.timeTravelling = true;
+    app.stateChanged = true;
+    try {
+      runInApp(app, () => renderComponentInstance(rootInstance));
+    } finally {
+      app.timeTravelling = false;
+      app.initialStates = undefined;
+    }
+  });
+}
+log.onJump(jumpToState);
+
+// Runs an action dispatched from Redux DevTools, e.g. `counter-0/Increment`
+// in the same way as the component's action thunks
+function dispatchFromDevTools(type: string, payload?: Record<string, unknown>): void {
+  const separator = type.lastIndexOf("/");
+  const id = type.slice(0, separator);
+  const actionName = type.slice(separator + 1);
+  const app = Array.from(mountedApps).find((a) => a.componentRegistry.has(id));
+  const instance = app?.componentRegistry.get(id);
+  if (!app || !instance || separator < 0) {
+    throw Error(`Component "${id}" not found, expected "<componentId>/<ActionName>"`);
+  }
+  if (!instance.config.actions?.[actionName] && !getHistoryAction(instance, actionName)) {
+    throw Error(`Component "${id}" has no action "${actionName}"`);
+  }
+  createActionThunk(app, id, actionName, payload)(internalKey);
+}
+log.onDispatch(dispatchFromDevTools);
+
+function getMountElement(target?: Element | string): Element {
+  if (target === undefined) {
+    const appElement = document.getElementById(defaultRootId);
+    if (!appElement) {
+      throw Error(`Element with id "${defaultRootId}" not found`);
+    }
+    return appElement;
+  }
+  const appElement = typeof target === "string" ? document.querySelector(target) : target;
+  if (!appElement) {
+    throw Error(`Element "${String(target)}" not found`);
+  }
+  return appElement;
 }
 
 function isDomEvent(e?: Record<string, unknown> | Event): e is Event {
@@ -511,15 +1333,27 @@ function deepFreeze<TObject extends Record<string, unknown>>(
   return o;
 }
 
-// Pub/sub
-export function subscribe(type: string, listener: EventListener): void {
-  document.addEventListener(type, listener);
+// Pub/sub with document events, typed by `EventMap`
+// Returns a function that removes the listener, use `AppInstance.subscribe` for listeners
+// removed when an app is unmounted
+export function subscribe<TType extends keyof EventMap>(
+  type: TType,
+  listener: (event: CustomEvent<EventMap[TType]>) => void
+): () => void {
+  document.addEventListener(type, listener as EventListener);
+  return () => unsubscribe(type, listener);
 }
 
-export function unsubscribe(type: string, listener: EventListener): void {
-  document.removeEventListener(type, listener);
+export function unsubscribe<TType extends keyof EventMap>(
+  type: TType,
+  listener: (event: CustomEvent<EventMap[TType]>) => void
+): void {
+  document.removeEventListener(type, listener as EventListener);
 }
 
-export function publish(type: string, detail?: Record<string, unknown>): void {
-  document.dispatchEvent(new CustomEvent(type, detail ? { detail } : undefined));
+export function publish<TType extends keyof EventMap>(
+  type: TType,
+  ...[detail]: EventDetailArgs<EventMap[TType]>
+): void {
+  document.dispatchEvent(new CustomEvent(type, detail !== undefined ? { detail } : undefined));
 }
@@ -1,4 +1,5 @@
 import { VNode } from "./vdom";
+import { Recorder, Recording, Replayer } from "./recording";
 
 type ValueOf<T> = T[keyof T];
 
@@ -9,14 +10,25 @@ export enum ThunkType {
   Task
 }
 
+// Debounce or throttle a thunk, in ms
+export type ThunkTiming = {
+  debounce?: number;
+  throttle?: number;
+  leading?: boolean;
+  trailing?: boolean;
+};
+
 export type ActionThunk = {
   (data?: Record<string, unknown>): void;
   type: ThunkType.Action;
+  timing?: ThunkTiming;
+  cancel?: () => void;
 };
 
 export type GetActionThunk<TActions> = <TKey extends keyof TActions>(
   actionName: TKey,
-  data?: TActions[TKey]
+  data?: TActions[TKey],
+  timing?: ThunkTiming
 ) => ActionThunk;
 
 export type RunAction<TActions> = (actionName: keyof TActions, data?: ValueOf<TActions>) => void;
@@ -26,9 +38,15 @@ export type TaskThunk = {
   type: ThunkType.Task;
   taskName: string;
   taskData?: unknown;
+  timing?: ThunkTiming;
+  cancel?: () => void;
 };
 
-export type GetTaskThunk<TTasks> = (taskName: keyof TTasks, data?: ValueOf<TTasks>) => TaskThunk;
+export type GetTaskThunk<TTasks> = (
+  taskName: keyof TTasks,
+  data?: ValueOf<TTasks>,
+  timing?: ThunkTiming
+) => TaskThunk;
 
 export type Next = undefined | ActionThunk | TaskThunk | (ActionThunk | TaskThunk)[];
 
@@ -37,6 +55,14 @@ export type Context<TProps, TState, TRootState> = {
   state: TState;
   rootState: TRootState;
   event?: Event;
+  // Set in the view context of components with a `history` config
+  canUndo?: boolean;
+  canRedo?: boolean;
+};
+
+export type TaskContext = {
+  // The component's root element, once mounted
+  element?: Element;
 };
 
 export type ActionHandler<TData, TProps, TState, TRootState> = (
@@ -45,14 +71,99 @@ export type ActionHandler<TData, TProps, TState, TRootState> = (
 ) => { state: TState; next?: Next };
 
 export type TaskHandler<TData, TProps, TState, TRootState> = (
-  data: TData
+  data: TData,
+  ctx: TaskContext
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
 ) => Task<any, TProps, TState, TRootState, any>;
 
+// How a task behaves when it runs again while still in progress:
+// - "parallel" (default): every run completes
+// - "takeLatest": earlier runs are aborted and their results ignored
+// - "takeFirst": new runs are dropped while one is in progress
+// - "queue": new runs wait for the previous one to complete
+export type TaskConcurrency = "parallel" | "takeLatest" | "takeFirst" | "queue";
+
 export type Task<TResult, TProps, TState, TRootState = unknown, TError = unknown> = {
-  perform: () => Promise<TResult | void> | TResult | void;
-  success?: (result: TResult, ctx: Context<TProps, TState, TRootState>) => Next;
-  failure?: (error: DeepPartial<TError>, ctx: Context<TProps, TState, TRootState>) => Next;
+  // `signal` is aborted when the run is superseded or the component is removed
+  perform: (signal: AbortSignal) => Promise<TResult | void> | TResult | void;
+  success?: (result: TResult, ctx: Context<TProps, TState, TRootState> & TaskContext) => Next;
+  failure?: (
+    error: DeepPartial<TError>,
+    ctx: Context<TProps, TState, TRootState> & TaskContext
+  ) => Next;
+  concurrency?: TaskConcurrency;
+};
+
+// A long-lived effect declared in `Config.subscriptions`, identified by `key`
+// `start` begins the effect and returns a function that stops it
+// Each value passed to `emit` dispatches `action` with that value as data
+export type Subscription<TActionName = string> = {
+  key: string;
+  action: TActionName;
+  start: (emit: (data?: Record<string, unknown>, event?: Event) => void) => () => void;
+};
+
+// Events for `publish` and `subscribe`, an interface so that apps can add events with
+// declaration merging, e.g. `declare module "pure-ui-actions" { interface EventMap { ... } }`
+export interface EventMap {
+  // Published after each patch
+  patch: undefined;
+}
+
+// Detail is optional for events that allow `undefined`
+export type EventDetailArgs<TDetail> = undefined extends TDetail
+  ? [detail?: TDetail]
+  : [detail: TDetail];
+
+export type StorageLike = {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+};
+
+export type PersistOptions<TState = Record<string, unknown>> = {
+  // Storage key, defaults to the component id
+  key?: string;
+  // State keys to persist, defaults to all
+  keys?: (keyof TState)[];
+  // "local" (default), "session", or a custom storage
+  storage?: "local" | "session" | StorageLike;
+  // Save once changes pause for this many ms, instead of on every change
+  debounce?: number;
+  // Version of the persisted state, defaults to 1
+  version?: number;
+  // Functions by version, each upgrading state stored by the previous version
+  migrations?: Record<number, (state: Record<string, unknown>) => Record<string, unknown>>;
+};
+
+export type StateSaver = {
+  (state?: Record<string, unknown>): void;
+  // Saves a debounced state immediately
+  flush: () => void;
+};
+
+export type HistoryOptions<TActionName = string, TState = Record<string, unknown>> = {
+  // Actions recorded in history, defaults to all
+  actions?: TActionName[];
+  // State keys restored by `Undo` and `Redo`, defaults to all
+  keys?: (keyof TState)[];
+  // Maximum number of steps that can be undone, defaults to 100
+  depth?: number;
+  // Recorded actions within this many ms of the previous one are undone together
+  group?: number;
+};
+
+// Actions generated for components with a `history` config
+export type HistoryActionPayloads = {
+  Undo: null;
+  Redo: null;
+};
+
+export type HistoryStack = {
+  past: Record<string, unknown>[];
+  future: Record<string, unknown>[];
+  // Time of the last recorded action, for grouping
+  lastTime?: number;
 };
 
 export type Component = {
@@ -76,13 +187,140 @@ export type ComponentInstance = {
   vnode?: VNode;
   isRoot: boolean;
   inCurrentRender: boolean;
+  // Set once `onMount` has run
+  mounted: boolean;
+  // Id of the component whose view rendered this one
+  parentId?: string;
+  // Error caught by a boundary, shown with `catch.view` until an action changes its state
+  error?: { value: unknown };
+  handlingError?: boolean;
+  // In progress task runs by task name
+  runningTasks: Map<string, TaskRun[]>;
+  // Started subscriptions by key
+  subscriptions: Map<string, RunningSubscription>;
+  // Saves state for components with a `persist` config
+  saveState?: StateSaver;
+  // Undo and redo states for components with a `history` config
+  history?: HistoryStack;
+};
+
+export type RunningSubscription = {
+  action: string;
+  stop: () => void;
+};
+
+export type TaskRun = {
+  controller: AbortController;
+  done: Promise<unknown>;
+};
+
+// Runtime state owned by each mounted app
+export type AppState = {
+  rootId: string;
+  componentRegistry: Map<string, ComponentInstance>;
+  actionThunkCache: Map<string, ActionThunk>;
+  taskThunkCache: Map<string, TaskThunk>;
+  // Root component references
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  rootAction?: GetActionThunk<any>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  rootTask?: GetTaskThunk<any>;
+  rootState?: Record<string, unknown>;
+  // Render cycle state
+  renderingFromRoot: boolean;
+  stateChanged: boolean;
+  noRender: number;
+  // Ids of components inserted by the current patch, for running `onMount`
+  pendingMounts: string[];
+  // Ids of components whose view is being called, innermost last
+  renderStack: string[];
+  // Listeners added with `subscribe`, removed on unmount
+  listeners: { type: string; listener: EventListener }[];
+  unmounted: boolean;
+  // Rendering to a string, see `renderToString`
+  serverRender: boolean;
+  // Restoring state from Redux DevTools, tasks and init actions are skipped
+  timeTravelling: boolean;
+  // Number of Next thunks running, actions dispatched outside of these are external
+  nextDepth: number;
+  // Set by `mount({ record: true })` and `replay`
+  recorder?: Recorder;
+  replayer?: Replayer;
+  // Results used instead of `perform` by `mountTest`, keyed `<componentId>/<TaskName>`
+  fakeTasks?: Map<string, FakeTaskResult>;
+  // Initial component state recorded by `renderToString`, or restored when hydrating
+  initialStates?: Record<string, Record<string, unknown> | undefined>;
+};
+
+// Handle returned by `mount` for an isolated app
+export type AppInstance<TActions> = {
+  rootId: string;
+  getComponentRegistry: () => Map<string, ComponentInstance>;
+  getRootState: () => Record<string, unknown> | undefined;
+  // Recording made with `mount({ record: true })`
+  getRecording: () => Recording | undefined;
+  runRootAction: RunAction<TActions>;
+  // Adds a listener as `subscribe` does, removed when the app is unmounted
+  subscribe: <TType extends keyof EventMap>(
+    type: TType,
+    listener: (event: CustomEvent<EventMap[TType]>) => void
+  ) => () => void;
+  unmount: () => void;
+};
+
+export type FakeTaskResult = { result?: unknown } | { error: unknown };
+
+// Harness returned by `mountTest`
+export type MountTestApi<TComponent extends Component = Component> = {
+  // Detached element containing the rendered component
+  container: Element;
+  // Runs an action of the root component, or of the component with `id`
+  dispatch: {
+    <TName extends keyof TComponent["ActionPayloads"]>(
+      name: TName,
+      data?: NonNullable<TComponent["ActionPayloads"]>[TName]
+    ): void;
+    (name: string, data: unknown, id: string): void;
+  };
+  // Later runs of the task resolve with `result` or reject with `error`, without `perform`
+  fakeTask: (name: string, outcome: FakeTaskResult, id?: string) => void;
+  // Waits for running tasks and the actions they lead to
+  flush: () => Promise<void>;
+  getState: (id?: string) => Record<string, unknown> | undefined;
+  // Every component's state by id
+  getStates: () => Record<string, Record<string, unknown> | undefined>;
+  getComponentRegistry: () => Map<string, ComponentInstance>;
+  unmount: () => void;
 };
 
 export type Config<TComponent extends Component = Component> = {
   state?: (props: TComponent["Props"]) => TComponent["State"];
   init?: Next;
+  // Save state to storage, restoring it when the component is next created
+  persist?: PersistOptions<NonNullable<TComponent["State"]>>;
+  // Record state changes, generating `Undo` and `Redo` actions
+  history?: HistoryOptions<keyof TComponent["ActionPayloads"], NonNullable<TComponent["State"]>>;
+  // Run after the patch that inserts the component's element
+  onMount?: Next;
+  // Run when the component is removed, before it leaves the registry
+  // Rendering is suspended, and task results are ignored
+  onDestroy?: Next;
+  // `Undo` and `Redo` handlers are generated for components with a `history` config
   actions?: {
-    [TKey in keyof TComponent["ActionPayloads"]]: ActionHandler<
+    [TKey in Exclude<
+      keyof TComponent["ActionPayloads"],
+      keyof HistoryActionPayloads
+    >]: ActionHandler<
+      TComponent["ActionPayloads"][TKey],
+      TComponent["Props"],
+      TComponent["State"],
+      TComponent["RootState"]
+    >;
+  } & {
+    [TKey in Extract<
+      keyof TComponent["ActionPayloads"],
+      keyof HistoryActionPayloads
+    >]?: ActionHandler<
       TComponent["ActionPayloads"][TKey],
       TComponent["Props"],
       TComponent["State"],
@@ -97,6 +335,21 @@ export type Config<TComponent extends Component = Component> = {
       TComponent["RootState"]
     >;
   };
+  // Evaluated after each render, starting and stopping subscriptions as the result changes
+  subscriptions?: (
+    ctx: Context<TComponent["Props"], TComponent["State"], TComponent["RootState"]>
+  ) => (Subscription<keyof TComponent["ActionPayloads"]> | false | null | undefined)[];
+  // Makes the component an error boundary for errors thrown by its own or descendants' views,
+  // actions and task callbacks
+  catch?: {
+    view: (
+      id: string,
+      ctx: Context<TComponent["Props"], TComponent["State"], TComponent["RootState"]> & {
+        error: unknown;
+      }
+    ) => VNode;
+    onError?: (error: unknown) => Next;
+  };
   view: (
     id: string,
     ctx: Context<TComponent["Props"], TComponent["State"], TComponent["RootState"]>
@@ -0,0 +1,323 @@
+import {
+  _setTestKey,
+  addLogger,
+  component,
+  createMemoryStorage,
+  html,
+  mount,
+  Recording,
+  replay,
+  setPersistStorage,
+  StorageLike
+} from "./pure-ui-actions";
+const { div, input, span } = html;
+const testKey = _setTestKey({});
+
+describe("Recording and replay", () => {
+  type Deferred = { resolve: (items: string[]) => void; reject: (err: Error) => void };
+  let deferreds: Deferred[];
+  let performed: string[];
+  let appAction: Function;
+
+  type AppProps = { title: string };
+  type AppState = { query: string; items: string[]; error: string; count: number };
+  type AppComponent = {
+    Props: AppProps;
+    State: AppState;
+    ActionPayloads: {
+      Search: { query: string };
+      SetItems: { items: string[] };
+      SetError: { message: string };
+      Increment: null;
+    };
+    TaskPayloads: { Fetch: { query: string }; Count: { count: number } };
+  };
+
+  const app = component<AppComponent>(({ action, task }) => {
+    appAction = action;
+    return {
+      state: () => ({ query: "", items: [], error: "", count: 0 }),
+      init: task("Count", { count: 10 }),
+      actions: {
+        Search: ({ query }, { state }) => ({
+          state: { ...state, query },
+          next: task("Fetch", { query })
+        }),
+        SetItems: ({ items }, { state }) => ({ state: { ...state, items, error: "" } }),
+        SetError: ({ message }, { state }) => ({ state: { ...state, error: message } }),
+        Increment: (_, { state }) => ({ state: { ...state, count: state.count + 1 } })
+      },
+      tasks: {
+        Fetch: ({ query }) => ({
+          perform: (): Promise<string[]> => {
+            performed.push(`Fetch ${query}`);
+            return new Promise((resolve, reject) => deferreds.push({ resolve, reject }));
+          },
+          success: (items: string[]) => action("SetItems", { items }),
+          failure: (err: { message?: string }) => action("SetError", { message: err.message ?? "" })
+        }),
+        Count: ({ count }) => ({
+          perform: (): number => {
+            performed.push("Count");
+            return count;
+          },
+          success: () => action("Increment")
+        })
+      },
+      view: (id, { props, state }) =>
+        div(`#${id}`, [
+          span(".title", props.title),
+          span(".items", state.items.join(",")),
+          span(".error", state.error),
+          span(".count", String(state.count))
+        ])
+    };
+  });
+
+  const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve));
+
+  // Records a session where results arrive out of order, after later actions
+  async function recordSession(): Promise<Recording> {
+    const { getRecording, unmount } = mount({ app, props: { title: "Shop" }, record: true });
+    await flush();
+    appAction("Search", { query: "a" })(testKey);
+    appAction("Search", { query: "ab" })(testKey);
+    deferreds[1].resolve(["ab1", "ab2"]);
+    await flush();
+    appAction("Increment")(testKey);
+    deferreds[0].reject(Error("Timed out"));
+    await flush();
+    const recording = getRecording();
+    unmount();
+    return recording as Recording;
+  }
+
+  function logStates(): { states: unknown[]; remove: () => void } {
+    const states: unknown[] = [];
+    const remove = addLogger((event) => {
+      if (event.type === "actionEnd") states.push(event.state);
+    });
+    return { states, remove };
+  }
+
+  beforeEach(() => {
+    deferreds = [];
+    performed = [];
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  it("should not record by default", () => {
+    const { getRecording } = mount({ app, props: { title: "Shop" } });
+    expect(getRecording()).toBeUndefined();
+  });
+
+  it("should record props, actions and task results", async () => {
+    const recording = await recordSession();
+    expect(recording.rootId).toBe("app");
+    expect(recording.props).toEqual({ title: "Shop" });
+    expect(recording.events).toEqual([
+      { type: "task", id: "app", task: "Count", run: 0, sync: true, failed: false, result: 10 },
+      { type: "action", id: "app", action: "Increment", external: false },
+      { type: "action", id: "app", action: "Search", data: { query: "a" }, external: true },
+      { type: "action", id: "app", action: "Search", data: { query: "ab" }, external: true },
+      {
+        type: "task",
+        id: "app",
+        task: "Fetch",
+        run: 1,
+        sync: false,
+        failed: false,
+        result: ["ab1", "ab2"]
+      },
+      {
+        type: "action",
+        id: "app",
+        action: "SetItems",
+        data: { items: ["ab1", "ab2"] },
+        external: false
+      },
+      { type: "action", id: "app", action: "Increment", external: true },
+      {
+        type: "task",
+        id: "app",
+        task: "Fetch",
+        run: 0,
+        sync: false,
+        failed: true,
+        error: { name: "Error", message: "Timed out" }
+      },
+      {
+        type: "action",
+        id: "app",
+        action: "SetError",
+        data: { message: "Timed out" },
+        external: false
+      }
+    ]);
+  });
+
+  it("should replay the recorded state sequence from JSON without performing tasks", async () => {
+    const recorded = logStates();
+    const recording = await recordSession();
+    recorded.remove();
+    performed = [];
+    document.body.innerHTML = `<div id="app"></div>`;
+
+    const replayed = logStates();
+    const { getRootState } = await replay({
+      app,
+      recording: JSON.parse(JSON.stringify(recording))
+    });
+    replayed.remove();
+
+    expect(performed).toEqual([]);
+    expect(replayed.states).toEqual(recorded.states);
+    expect(getRootState()).toEqual({
+      query: "ab",
+      items: ["ab1", "ab2"],
+      error: "Timed out",
+      count: 2
+    });
+    expect(document.querySelector(".title")?.textContent).toBe("Shop");
+    expect(document.querySelector(".items")?.textContent).toBe("ab1,ab2");
+  });
+
+  it("should leave tasks without a recorded result in progress", async () => {
+    const { getRecording, unmount } = mount({ app, props: { title: "Shop" }, record: true });
+    appAction("Search", { query: "a" })(testKey);
+    const recording = getRecording() as Recording;
+    unmount();
+
+    const { getComponentRegistry } = await replay({ app, recording });
+    expect(getComponentRegistry().get("app")?.runningTasks.has("Fetch")).toBe(true);
+  });
+
+  describe("with events and timing", () => {
+    type FormComponent = {
+      State: { text: string; saves: number };
+      ActionPayloads: { SetText: null; Save: null };
+    };
+
+    const form = component<FormComponent>(({ action }) => ({
+      state: () => ({ text: "", saves: 0 }),
+      actions: {
+        SetText: (_, { state, event }) => ({
+          state: { ...state, text: (event?.target as HTMLInputElement | undefined)?.value ?? "" },
+          next: action("Save", null, { debounce: 5 })
+        }),
+        Save: (_, { state }) => ({ state: { ...state, saves: state.saves + 1 } })
+      },
+      view: (id, { state }) =>
+        div(`#${id}`, [input({ on: { input: action("SetText") } }), span(".text", state.text)])
+    }));
+
+    const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+    async function recordForm(): Promise<Recording> {
+      const { getRecording, unmount } = mount({ app: form, props: {}, record: true });
+      const field = document.querySelector("input") as HTMLInputElement;
+      field.value = "hello";
+      field.dispatchEvent(new Event("input"));
+      await wait(20);
+      const recording = getRecording() as Recording;
+      unmount();
+      return recording;
+    }
+
+    it("should record the state of actions that read their event", async () => {
+      const recording = await recordForm();
+      expect(recording.events).toEqual([
+        {
+          type: "action",
+          id: "app",
+          action: "SetText",
+          external: true,
+          state: { text: "hello", saves: 0 }
+        },
+        { type: "action", id: "app", action: "Save", data: null, external: false }
+      ]);
+    });
+
+    it("should replay the recorded state of actions that read their event", async () => {
+      const recording = await recordForm();
+      document.body.innerHTML = `<div id="app"></div>`;
+      const { getRootState } = await replay({
+        app: form,
+        recording: JSON.parse(JSON.stringify(recording))
+      });
+      await wait(20);
+
+      expect(getRootState()).toEqual({ text: "hello", saves: 1 });
+      expect(document.querySelector(".text")?.textContent).toBe("hello");
+    });
+  });
+
+  describe("with persisted state", () => {
+    let storage: StorageLike;
+    let likeAction: Function;
+
+    const liked = component<{ State: { likes: number }; ActionPayloads: { Like: null } }>(
+      ({ action }) => {
+        likeAction = action;
+        return {
+          state: () => ({ likes: 0 }),
+          persist: { keys: ["likes"] },
+          actions: {
+            Like: (_, { state }) => ({ state: { ...state, likes: state.likes + 1 } })
+          },
+          view: (id, { state }) => div(`#${id}`, String(state.likes))
+        };
+      }
+    );
+
+    const stored = (): string | null => storage.getItem("app");
+
+    beforeEach(() => {
+      storage = createMemoryStorage();
+      setPersistStorage("local", storage);
+      storage.setItem("app", JSON.stringify({ version: 1, state: { likes: 2 } }));
+    });
+
+    afterEach(() => {
+      setPersistStorage("local");
+    });
+
+    async function recordLikes(): Promise<Recording> {
+      const { getRecording, unmount } = mount({ app: liked, props: {}, record: true });
+      likeAction("Like")(testKey);
+      likeAction("Like")(testKey);
+      const recording = getRecording() as Recording;
+      unmount();
+      return JSON.parse(JSON.stringify(recording));
+    }
+
+    it("should record the restored state", async () => {
+      const recording = await recordLikes();
+      expect(recording.persisted).toEqual({ app: [{ likes: 2 }] });
+    });
+
+    it("should replay from the recorded state without reading or writing storage", async () => {
+      const recording = await recordLikes();
+      storage.setItem("app", JSON.stringify({ version: 1, state: { likes: 9 } }));
+      const before = stored();
+      document.body.innerHTML = `<div id="app"></div>`;
+
+      const { getRootState } = await replay({ app: liked, recording });
+      expect(getRootState()).toEqual({ likes: 4 });
+      expect(stored()).toBe(before);
+    });
+  });
+
+  it("should throw when the replay diverges from the recording", async () => {
+    const recording: Recording = {
+      rootId: "app",
+      props: { title: "Shop" },
+      events: [
+        { type: "task", id: "app", task: "Fetch", run: 0, sync: false, failed: false, result: [] }
+      ]
+    };
+    await expect(replay({ app, recording })).rejects.toThrow(
+      "Replay diverged from the recording, task app/Fetch/0 was not performed"
+    );
+  });
+});
@@ -0,0 +1,173 @@
+/*
+Session recording and deterministic replay
+- `mount({ ..., record: true })` records the props, each action and each task result,
+  and `getRecording()` returns it as JSON-serialisable data
+- `await replay({ app, recording })` mounts the app again, dispatching the recorded actions
+  that came from outside the app (DOM events, `runRootAction`, subscriptions) in order
+- Replayed tasks are not performed, each run receives its recorded result at the point it arrived
+- Events can't be replayed, so actions that read `event` record the state they produced, which
+  replaces the state they return on replay. Their Next runs again without the event
+- State restored by `persist` is recorded, and replaces storage on replay, which saves nothing
+*/
+
+export type RecordedAction = {
+  type: "action";
+  id: string;
+  action: string;
+  data?: unknown;
+  // Dispatched from outside the app, rather than as the Next of an action or task
+  external: boolean;
+  // State produced by an action that read `event`
+  state?: unknown;
+};
+
+export type RecordedTaskResult = {
+  type: "task";
+  id: string;
+  task: string;
+  // Index of the run of this task in this component
+  run: number;
+  // Returned by `perform` without a promise, so delivered as it ran
+  sync: boolean;
+  failed: boolean;
+  result?: unknown;
+  error?: unknown;
+};
+
+export type Recording = {
+  rootId: string;
+  props: unknown;
+  events: (RecordedAction | RecordedTaskResult)[];
+  // State restored by `persist` each time a component was created, by component id
+  persisted?: Record<string, unknown[]>;
+};
+
+type Session = {
+  recording: Recording;
+  // Runs started by task, keyed `<componentId>/<TaskName>`
+  runs: Map<string, number>;
+};
+
+export type Recorder = Session;
+
+export type Replayer = Session & {
+  // Results of async runs waiting for their turn
+  pending: Map<string, { resolve: (result: unknown) => void; reject: (error: unknown) => void }>;
+  // Components created so far by id, to match them to their persisted state
+  restores: Map<string, number>;
+};
+
+export function createRecorder(rootId: string, props: unknown): Recorder {
+  return { recording: { rootId, props: toJSON(props), events: [] }, runs: new Map() };
+}
+
+export function createReplayer(recording: Recording): Replayer {
+  return { recording, runs: new Map(), pending: new Map(), restores: new Map() };
+}
+
+// Returns the index of a new run of a task
+export function startRun(session: Session, id: string, task: string): number {
+  const key = `${id}/${task}`;
+  const run = session.runs.get(key) ?? 0;
+  session.runs.set(key, run + 1);
+  return run;
+}
+
+export function recordAction(
+  recorder: Recorder,
+  id: string,
+  action: string,
+  data: unknown,
+  external: boolean
+): RecordedAction {
+  const event: RecordedAction = { type: "action", id, action, data: toJSON(data), external };
+  recorder.recording.events.push(event);
+  return event;
+}
+
+export function recordActionState(event: RecordedAction, state: unknown): void {
+  event.state = toJSON(state);
+}
+
+export function recordPersistedState(recorder: Recorder, id: string, state: unknown): void {
+  const persisted = (recorder.recording.persisted ??= {});
+  (persisted[id] ??= []).push(toJSON(state));
+}
+
+// State restored by `persist` for the next creation of a component in the recorded session
+export function replayPersistedState(
+  replayer: Replayer,
+  id: string
+): Record<string, unknown> | undefined {
+  const restore = replayer.restores.get(id) ?? 0;
+  replayer.restores.set(id, restore + 1);
+  return replayer.recording.persisted?.[id]?.[restore] as Record<string, unknown> | undefined;
+}
+
+export function recordTaskResult(
+  recorder: Recorder,
+  id: string,
+  task: string,
+  run: number,
+  sync: boolean,
+  outcome: { result: unknown } | { error: unknown }
+): void {
+  recorder.recording.events.push({
+    type: "task",
+    id,
+    task,
+    run,
+    sync,
+    ...("error" in outcome
+      ? { failed: true, error: toJSON(outcome.error) }
+      : { failed: false, result: toJSON(outcome.result) })
+  });
+}
+
+// Output of `perform` for a replayed run: the recorded result, thrown error,
+// or a promise settled by `deliverTaskResult`
+export function replayTask(replayer: Replayer, id: string, task: string, run: number): unknown {
+  const event = findTaskResult(replayer.recording, id, task, run);
+  if (event?.sync) {
+    if (event.failed) throw event.error;
+    return event.result;
+  }
+  // A run without a result never completed in the recorded session
+  return new Promise((resolve, reject) => {
+    replayer.pending.set(`${id}/${task}/${run}`, { resolve, reject });
+  });
+}
+
+export function deliverTaskResult(replayer: Replayer, event: RecordedTaskResult): void {
+  const key = `${event.id}/${event.task}/${event.run}`;
+  const pending = replayer.pending.get(key);
+  if (!pending) {
+    throw Error(`Replay diverged from the recording, task ${key} was not performed`);
+  }
+  replayer.pending.delete(key);
+  if (event.failed) {
+    pending.reject(event.error);
+  } else {
+    pending.resolve(event.result);
+  }
+}
+
+function findTaskResult(
+  recording: Recording,
+  id: string,
+  task: string,
+  run: number
+): RecordedTaskResult | undefined {
+  return recording.events.find(
+    (e): e is RecordedTaskResult =>
+      e.type === "task" && e.id === id && e.task === task && e.run === run
+  );
+}
+
+// Copies data as it would be loaded from JSON, keeping the message of errors
+function toJSON(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  return JSON.parse(
+    JSON.stringify(value, (_, v) => (v instanceof Error ? { name: v.name, message: v.message } : v))
+  );
+}
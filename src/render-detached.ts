@@ -0,0 +1,28 @@
+/*
+Rendering outside of any mounted app, for `viewTest`
+The runtime sets the renderer as it loads, so `componentTest` does not import the runtime
+*/
+import { ThunkTiming } from "./pure-ui-actions.types";
+
+type GetNext = (name: string, data?: unknown, timing?: ThunkTiming) => unknown;
+
+// Root state and root thunks for the child components of a detached render
+export type DetachedRoot = {
+  rootState: Record<string, unknown>;
+  rootAction: GetNext;
+  rootTask: GetNext;
+};
+
+type Renderer = <TResult>(render: () => TResult, root: DetachedRoot) => TResult;
+
+let renderer: Renderer | undefined;
+
+export function setDetachedRenderer(fn: Renderer): void {
+  renderer = fn;
+}
+
+// Renders without tasks or subscriptions in an app of its own, so child components of a view
+// rendered by `viewTest` are not added to the registry of a mounted app
+export function renderDetached<TResult>(render: () => TResult, root: DetachedRoot): TResult {
+  return renderer ? renderer(render, root) : render();
+}
@@ -0,0 +1,123 @@
+// @vitest-environment node
+import { vi } from "vitest";
+import { component, html, memo, renderToString, toHTML } from "./pure-ui-actions";
+const { div, span, input, ul, li, button } = html;
+
+describe("renderToString", () => {
+  type ChildComponent = {
+    Props: { label: string };
+    State: { text: string };
+    ActionPayloads: { SetText: { text: string } };
+  };
+
+  type AppComponent = {
+    Props: { title: string };
+    State: { theme: string; loaded: boolean };
+    ActionPayloads: { SetTheme: { theme: string } };
+    TaskPayloads: { Load: null };
+  };
+
+  const perform = vi.fn();
+
+  const child = component<ChildComponent>(({ action }) => ({
+    state: (props) => ({ text: props.label }),
+    init: action("SetText", { text: "ready" }),
+    actions: {
+      SetText: ({ text }, { state }) => ({ state: { ...state, text } })
+    },
+    view: (id, { state, rootState }) =>
+      span(`#${id}.child`, `${state.text} (${(rootState as { theme: string }).theme})`)
+  }));
+
+  const app = component<AppComponent>(({ action, task }) => ({
+    state: () => ({ theme: "light", loaded: false }),
+    init: [action("SetTheme", { theme: "dark" }), task("Load")],
+    actions: {
+      SetTheme: ({ theme }, { state }) => ({ state: { ...state, theme } })
+    },
+    tasks: {
+      Load: () => ({ perform })
+    },
+    view: (id, { props, state }) =>
+      div(`#${id}.page`, { class: { dark: state.theme === "dark" } }, [
+        div(".title", props.title),
+        child("child", { label: "child" }),
+        button({ on: { click: action("SetTheme", { theme: "light" }) } }, "Light")
+      ])
+  }));
+
+  it("should run without a DOM", () => {
+    expect(typeof window).toBe("undefined");
+    expect(typeof document).toBe("undefined");
+  });
+
+  it("should render initial state after synchronous init actions", () => {
+    expect(renderToString(app, { title: "Home" })).toBe(
+      '<div id="app" class="page dark">' +
+        '<div class="title">Home</div>' +
+        '<span id="child" class="child">ready (dark)</span>' +
+        "<button>Light</button>" +
+        "</div>"
+    );
+  });
+
+  it("should not perform tasks", () => {
+    renderToString(app, { title: "Home" });
+    expect(perform).not.toHaveBeenCalled();
+  });
+
+  it("should render with a custom root id", () => {
+    expect(renderToString(app, { title: "Home" }, { rootId: "landing" })).toMatch(
+      /^<div id="landing"/
+    );
+  });
+
+  it("should render each call from fresh state", () => {
+    expect(renderToString(app, { title: "One" })).toContain("One");
+    expect(renderToString(app, { title: "Two" })).toContain("Two");
+  });
+});
+
+describe("toHTML", () => {
+  it("should render attrs and props", () => {
+    expect(
+      toHTML(
+        input({
+          attrs: { "data-id": 1, hidden: true, title: false },
+          props: { type: "text", value: "a", disabled: false, className: "field" }
+        })
+      )
+    ).toBe('<input data-id="1" hidden type="text" value="a" class="field">');
+  });
+
+  it("should escape text and attribute values", () => {
+    expect(toHTML(div({ attrs: { title: '"x" & y' } }, "<b>bold</b>"))).toBe(
+      '<div title="&quot;x&quot; &amp; y">&lt;b&gt;bold&lt;/b&gt;</div>'
+    );
+  });
+
+  it("should render innerHTML unescaped", () => {
+    expect(toHTML(div({ props: { innerHTML: "<b>bold</b>" } }))).toBe("<div><b>bold</b></div>");
+  });
+
+  it("should render mixed text and element children", () => {
+    expect(toHTML(div(["Hello ", span("world"), null]))).toBe(
+      "<div>Hello <span>world</span></div>"
+    );
+  });
+
+  it("should combine selector classes with the class module", () => {
+    expect(toHTML(div(".a.b", { class: { b: false, c: true } }))).toBe('<div class="a c"></div>');
+  });
+
+  it("should render memoized nodes", () => {
+    const renderList = (items: string[]) =>
+      ul(
+        ".list",
+        items.map((item) => li({ key: item }, item))
+      );
+    expect(toHTML(memo("ul.list", "list", renderList, [["a", "b"]]))).toBe(
+      '<ul class="list"><li>a</li><li>b</li></ul>'
+    );
+  });
+});
@@ -0,0 +1,539 @@
+import { vi } from "vitest";
+import {
+  _setTestKey,
+  AppInstance,
+  component,
+  componentTest,
+  createRouter,
+  html,
+  mount,
+  NavigateData,
+  Route,
+  Transition
+} from "./pure-ui-actions";
+const { div } = html;
+const testKey = _setTestKey({});
+
+const routes = {
+  home: "/",
+  user: "/users/:id",
+  post: "/users/:id/posts/:postId"
+} as const;
+
+describe("Router", () => {
+  const router = createRouter(routes);
+
+  beforeEach(() => {
+    window.history.replaceState(null, "", "/");
+  });
+
+  describe("match", () => {
+    it("should match static routes", () => {
+      expect(router.match("/")).toEqual({ name: "home", params: {}, query: {}, path: "/" });
+    });
+
+    it("should match params and query", () => {
+      expect(router.match("/users/1/posts/a%20b?tab=comments")).toEqual({
+        name: "post",
+        params: { id: "1", postId: "a b" },
+        query: { tab: "comments" },
+        path: "/users/1/posts/a%20b"
+      });
+    });
+
+    it("should return undefined for unknown paths", () => {
+      expect(router.match("/unknown")).toBeUndefined();
+      expect(router.match("/users/1/extra")).toBeUndefined();
+    });
+
+    it("should return undefined for malformed paths", () => {
+      expect(router.match("/users/%E0%A4%A")).toBeUndefined();
+    });
+  });
+
+  describe("href", () => {
+    it("should build paths from params and query", () => {
+      expect(router.href({ name: "user", params: { id: "a/b" }, query: { tab: "posts" } })).toBe(
+        "/users/a%2Fb?tab=posts"
+      );
+    });
+
+    it("should require params for patterns that have them", () => {
+      // @ts-expect-error missing params
+      router.href({ name: "user" });
+      // @ts-expect-error missing `postId`
+      router.href({ name: "post", params: { id: "1" } });
+      expect(router.href({ name: "home" })).toBe("/");
+    });
+
+    it("should prefix a base path", () => {
+      const based = createRouter(routes, { base: "/app/" });
+      expect(based.href({ name: "user", params: { id: "1" } })).toBe("/app/users/1");
+    });
+
+    it("should build hash URLs in hash mode", () => {
+      const hashRouter = createRouter(routes, { mode: "hash" });
+      expect(hashRouter.href({ name: "user", params: { id: "1" } })).toBe("#/users/1");
+    });
+  });
+
+  describe("with an app", () => {
+    type AppComponent = {
+      State: { route?: Route<typeof routes> };
+      ActionPayloads: { SetRoute: { route?: Route<typeof routes> } };
+      TaskPayloads: { Navigate: Parameters<typeof router.navigate>[0] };
+    };
+
+    let rootTask: Function;
+    let stop: () => void;
+    const onLinkClick = vi.fn();
+
+    const app = component<AppComponent>(({ task }) => {
+      rootTask = task;
+      return {
+        state: () => ({}),
+        actions: {
+          SetRoute: ({ route }, { state }) => ({ state: { ...state, route } })
+        },
+        tasks: {
+          Navigate: router.navigate
+        },
+        view: (id, { state }) =>
+          div(`#${id}`, [
+            div(".page", state.route?.name ?? "not found"),
+            router.link({ name: "user", params: { id: "2" } }, "User 2", {
+              attrs: { class: "user-link" },
+              on: { click: onLinkClick }
+            })
+          ])
+      };
+    });
+
+    const page = (): string | null | undefined => document.querySelector(".page")?.textContent;
+    const link = (): HTMLElement => document.querySelector("a") as HTMLElement;
+
+    function mountApp(): AppInstance<AppComponent["ActionPayloads"]> {
+      return mount<AppComponent["ActionPayloads"], Record<string, never>>({
+        app,
+        props: {},
+        init: (runRootAction) => {
+          stop = router.start(runRootAction, "SetRoute");
+        }
+      });
+    }
+
+    beforeEach(() => {
+      document.body.innerHTML = `<div id="app"></div>`;
+      onLinkClick.mockReset();
+    });
+
+    afterEach(() => {
+      stop();
+    });
+
+    it("should set the route for the current location", () => {
+      window.history.replaceState(null, "", "/users/5?tab=posts");
+      const { getRootState } = mountApp();
+
+      expect(getRootState()?.route).toEqual({
+        name: "user",
+        params: { id: "5" },
+        query: { tab: "posts" },
+        path: "/users/5"
+      });
+    });
+
+    it("should set an undefined route for unknown paths", () => {
+      window.history.replaceState(null, "", "/unknown");
+      mountApp();
+      expect(page()).toBe("not found");
+    });
+
+    it("should set an undefined route for malformed paths", () => {
+      mountApp();
+      window.history.pushState(null, "", "/users/%E0%A4%A");
+      window.dispatchEvent(new Event("popstate"));
+      expect(page()).toBe("not found");
+    });
+
+    it("should update the route on popstate", () => {
+      mountApp();
+      window.history.pushState(null, "", "/users/3");
+      window.dispatchEvent(new Event("popstate"));
+      expect(page()).toBe("user");
+    });
+
+    it("should navigate with the navigate task", () => {
+      mountApp();
+      rootTask("Navigate", { name: "post", params: { id: "1", postId: "2" } })(testKey);
+
+      expect(window.location.pathname).toBe("/users/1/posts/2");
+      expect(page()).toBe("post");
+    });
+
+    it("should replace the history entry when requested", () => {
+      mountApp();
+      const length = window.history.length;
+      rootTask("Navigate", { name: "user", params: { id: "1" }, replace: true })(testKey);
+
+      expect(window.history.length).toBe(length);
+      expect(window.location.pathname).toBe("/users/1");
+    });
+
+    it("should render links that navigate on click", () => {
+      mountApp();
+      expect(link().getAttribute("href")).toBe("/users/2");
+      expect(link().className).toBe("user-link");
+
+      link().click();
+      expect(window.location.pathname).toBe("/users/2");
+      expect(page()).toBe("user");
+    });
+
+    it("should run the link's own click handler", () => {
+      mountApp();
+      link().click();
+      expect(onLinkClick).toHaveBeenCalledWith(expect.any(MouseEvent), expect.anything());
+      expect(page()).toBe("user");
+    });
+
+    it("should not navigate when the link's own click handler prevents default", () => {
+      window.history.replaceState(null, "", "/");
+      mountApp();
+      onLinkClick.mockImplementation((e: Event) => e.preventDefault());
+      link().click();
+      expect(window.location.pathname).toBe("/");
+      expect(page()).toBe("home");
+    });
+
+    it("should leave modified clicks to the browser", () => {
+      mountApp();
+      let defaultPrevented: boolean | undefined;
+      const onClick = (e: Event): void => {
+        defaultPrevented = e.defaultPrevented;
+        e.preventDefault(); // jsdom does not implement navigation
+      };
+      document.addEventListener("click", onClick);
+      link().dispatchEvent(
+        new MouseEvent("click", { bubbles: true, cancelable: true, ctrlKey: true })
+      );
+      document.removeEventListener("click", onClick);
+
+      expect(defaultPrevented).toBe(false);
+      expect(page()).toBe("home");
+    });
+
+    it("should stop listening when stopped", () => {
+      const { getRootState } = mountApp();
+      stop();
+      window.history.pushState(null, "", "/users/3");
+      window.dispatchEvent(new Event("popstate"));
+      expect((getRootState() as AppComponent["State"]).route?.name).toBe("home");
+    });
+
+    it("should use the fragment in hash mode", () => {
+      const hashRouter = createRouter(routes, { mode: "hash" });
+      const runRootAction = vi.fn();
+      window.history.replaceState(null, "", "/#/users/7");
+      const stopHash = hashRouter.start(runRootAction, "SetRoute");
+      window.dispatchEvent(new Event("hashchange"));
+      stopHash();
+
+      expect(runRootAction).toHaveBeenCalledTimes(1);
+      expect(runRootAction).toHaveBeenCalledWith("SetRoute", {
+        route: { name: "user", params: { id: "7" }, query: {}, path: "/users/7" }
+      });
+    });
+  });
+});
+
+describe("Route guards", () => {
+  const guardedRoutes = {
+    home: "/",
+    edit: { path: "/posts/:id/edit", beforeLeave: "ConfirmLeave" },
+    post: { path: "/posts/:id", beforeEnter: "LoadPost" }
+  } as const;
+  const router = createRouter(guardedRoutes);
+
+  type GuardedRoute = Route<typeof guardedRoutes>;
+  type GuardedTransition = Transition<typeof guardedRoutes>;
+
+  type AppState = {
+    route?: GuardedRoute;
+    pendingRoute?: GuardedRoute;
+    transitionId?: number;
+    post?: string;
+  };
+
+  // Guard callbacks read the transition id from `rootState`, which is current when they run
+  type AppComponent = {
+    State: AppState;
+    RootState: AppState;
+    ActionPayloads: {
+      RequestRoute: { route?: GuardedRoute };
+      SetRoute: { route?: GuardedRoute };
+      CancelRoute: null;
+      SetPost: { post: string };
+    };
+    TaskPayloads: {
+      ConfirmLeave: GuardedTransition;
+      LoadPost: GuardedTransition;
+      Restore: { route?: GuardedRoute };
+    };
+  };
+
+  let confirmLeave: () => boolean;
+  let loadPost: (id: string) => Promise<string>;
+
+  const app = component<AppComponent>(({ action, task }) => {
+    const guard = router.guard({ action, task, enter: "SetRoute" });
+    return {
+      state: () => ({}),
+      actions: {
+        RequestRoute: ({ route }, { state }) => {
+          const transition = router.transition(state, route);
+          const nextState = { ...state, pendingRoute: route, transitionId: transition.id };
+          return { state: nextState, next: guard(transition, nextState) };
+        },
+        SetRoute: ({ route }, { state }) => ({
+          state: { ...state, route, pendingRoute: undefined }
+        }),
+        CancelRoute: (_, { state }) => ({
+          state: { ...state, pendingRoute: undefined },
+          next: task("Restore", { route: state.route })
+        }),
+        SetPost: ({ post }, { state }) => ({ state: { ...state, post } })
+      },
+      tasks: {
+        ConfirmLeave: (transition) => ({
+          perform: () => (confirmLeave() ? true : Promise.reject()),
+          success: (_, { rootState }) => guard(transition, rootState),
+          failure: (_, { rootState }) =>
+            router.isPending(transition, rootState) ? action("CancelRoute") : undefined
+        }),
+        LoadPost: (transition) => ({
+          perform: () => loadPost((transition.to?.params as { id: string }).id),
+          success: (post: string, { rootState }) => {
+            const next = guard(transition, rootState);
+            return next && [action("SetPost", { post }), next];
+          },
+          failure: (_, { rootState }) =>
+            router.isPending(transition, rootState) ? action("CancelRoute") : undefined
+        }),
+        Restore: router.restore
+      },
+      view: (id, { state }) =>
+        div(`#${id}`, [
+          div(".page", state.route?.name ?? ""),
+          div(".loading", state.pendingRoute ? `Loading ${state.pendingRoute.name}` : "")
+        ])
+    };
+  });
+
+  const home = router.match("/") as GuardedRoute;
+  const edit = router.match("/posts/1/edit") as GuardedRoute;
+  const post = router.match("/posts/1") as GuardedRoute;
+
+  describe("with componentTest", () => {
+    const { actionTest, taskTest } = componentTest<AppComponent>(app);
+    const taskCtx = (rootState: AppState) => ({ props: {}, state: rootState, rootState });
+    const transitionOf = (next: unknown): GuardedTransition =>
+      (next as { data: GuardedTransition }).data;
+
+    it("should enter unguarded routes", () => {
+      const { state, next } = actionTest("RequestRoute", { route: home });
+      expect(state.pendingRoute).toEqual(home);
+      expect(state.transitionId).toBe(1);
+      expect(next).toEqual({ name: "SetRoute", data: { route: home } });
+    });
+
+    it("should run beforeEnter before entering", () => {
+      const { next } = actionTest("RequestRoute", { route: post }, { state: { route: home } });
+      expect(next).toEqual({
+        name: "LoadPost",
+        data: { from: home, to: post, step: "beforeEnter", id: 1 }
+      });
+    });
+
+    it("should number transitions from the id in state", () => {
+      const { state, next } = actionTest(
+        "RequestRoute",
+        { route: post },
+        { state: { route: home, transitionId: 4 } }
+      );
+      expect(state.transitionId).toBe(5);
+      expect(transitionOf(next).id).toBe(5);
+    });
+
+    it("should run beforeLeave before the next route's guards", () => {
+      const { state, next } = actionTest(
+        "RequestRoute",
+        { route: post },
+        { state: { route: edit } }
+      );
+      const transition = { from: edit, to: post, step: "beforeLeave", id: 1 };
+      expect(next).toEqual({ name: "ConfirmLeave", data: transition });
+
+      const { success } = taskTest("ConfirmLeave", transitionOf(next));
+      expect(success?.(undefined, taskCtx(state))).toEqual({
+        name: "LoadPost",
+        data: { ...transition, step: "beforeEnter" }
+      });
+    });
+
+    it("should enter once beforeEnter succeeds", () => {
+      const { state, next } = actionTest(
+        "RequestRoute",
+        { route: post },
+        { state: { route: home } }
+      );
+      const transition = transitionOf(next);
+      const { failure } = taskTest("LoadPost", transition);
+      expect(failure?.(undefined, taskCtx(state))).toEqual({
+        name: "CancelRoute",
+        data: undefined
+      });
+
+      const { success } = taskTest("LoadPost", transition);
+      expect(success?.("Post 1", taskCtx(state))).toEqual([
+        { name: "SetPost", data: { post: "Post 1" } },
+        { name: "SetRoute", data: { route: post } }
+      ]);
+      expect(router.isPending(transition, state)).toBe(true);
+    });
+
+    it("should drop the results of superseded transitions", () => {
+      const first = actionTest("RequestRoute", { route: post }, { state: { route: home } });
+      const second = actionTest("RequestRoute", { route: home }, { state: first.state });
+      expect(router.isPending(transitionOf(first.next), second.state)).toBe(false);
+
+      const { success, failure } = taskTest("LoadPost", transitionOf(first.next));
+      expect(success?.("Post 1", taskCtx(second.state))).toBeUndefined();
+      expect(failure?.(undefined, taskCtx(second.state))).toBeUndefined();
+    });
+
+    it("should not guard query changes", () => {
+      const withQuery = router.match("/posts/1/edit?tab=preview");
+      const { next } = actionTest("RequestRoute", { route: withQuery }, { state: { route: edit } });
+      expect(next).toEqual({ name: "SetRoute", data: { route: withQuery } });
+    });
+  });
+
+  describe("with an app", () => {
+    let rootTask: Function;
+    let stop: () => void;
+    let resolvePost: (post: string) => void;
+    let rejectPost: () => void;
+
+    const navigator = component<{ TaskPayloads: { Navigate: NavigateData<typeof guardedRoutes> } }>(
+      ({ task }) => {
+        rootTask = task;
+        return { tasks: { Navigate: router.navigate }, view: (id) => div(`#${id}`) };
+      }
+    );
+
+    const text = (selector: string): string | null | undefined =>
+      document.querySelector(selector)?.textContent;
+
+    function mountApp(path: string): AppInstance<AppComponent["ActionPayloads"]> {
+      window.history.replaceState(null, "", path);
+      const instance = mount<AppComponent["ActionPayloads"], Record<string, never>>({
+        app,
+        props: {},
+        init: (runRootAction) => {
+          stop = router.start(runRootAction, "RequestRoute");
+        }
+      });
+      mount({ app: navigator, props: {}, target: "#nav" });
+      return instance;
+    }
+
+    const navigate = (data: NavigateData<typeof guardedRoutes>): void =>
+      rootTask("Navigate", data)(testKey);
+
+    beforeEach(() => {
+      document.body.innerHTML = `<div id="app"></div><div id="nav"></div>`;
+      confirmLeave = (): boolean => true;
+      loadPost = (): Promise<string> =>
+        new Promise((resolve, reject) => {
+          resolvePost = resolve;
+          rejectPost = reject;
+        });
+    });
+
+    afterEach(() => {
+      stop();
+    });
+
+    it("should expose the pending route until beforeEnter resolves", async () => {
+      const { getRootState } = mountApp("/");
+      navigate({ name: "post", params: { id: "1" } });
+      expect(text(".loading")).toBe("Loading post");
+      expect(text(".page")).toBe("home");
+
+      resolvePost("Post 1");
+      await vi.waitFor(() => expect(text(".page")).toBe("post"));
+      expect(text(".loading")).toBe("");
+      expect((getRootState() as AppComponent["State"]).post).toBe("Post 1");
+    });
+
+    it("should cancel and restore the URL when beforeEnter fails", async () => {
+      mountApp("/");
+      navigate({ name: "post", params: { id: "1" } });
+      rejectPost();
+
+      await vi.waitFor(() => expect(text(".loading")).toBe(""));
+      expect(text(".page")).toBe("home");
+      expect(window.location.pathname).toBe("/");
+    });
+
+    it("should block leaving when beforeLeave fails", async () => {
+      confirmLeave = (): boolean => false;
+      mountApp("/posts/1/edit");
+      navigate({ name: "home" });
+
+      await vi.waitFor(() => expect(window.location.pathname).toBe("/posts/1/edit"));
+      expect(text(".page")).toBe("edit");
+    });
+
+    it("should ignore a guard that resolves after navigating elsewhere", async () => {
+      mountApp("/");
+      navigate({ name: "post", params: { id: "1" } });
+      const resolveFirst = resolvePost;
+      navigate({ name: "home" });
+      expect(text(".loading")).toBe("");
+
+      resolveFirst("Post 1");
+      await new Promise((resolve) => setTimeout(resolve));
+      expect(text(".page")).toBe("home");
+      expect(window.location.pathname).toBe("/");
+    });
+
+    it("should ignore a guard that fails after navigating elsewhere", async () => {
+      mountApp("/");
+      navigate({ name: "post", params: { id: "1" } });
+      const rejectFirst = rejectPost;
+      navigate({ name: "post", params: { id: "2" } });
+      expect(text(".loading")).toBe("Loading post");
+
+      rejectFirst();
+      await new Promise((resolve) => setTimeout(resolve));
+      expect(window.location.pathname).toBe("/posts/2");
+      expect(text(".loading")).toBe("Loading post");
+
+      resolvePost("Post 2");
+      await vi.waitFor(() => expect(text(".page")).toBe("post"));
+      expect(window.location.pathname).toBe("/posts/2");
+    });
+
+    it("should navigate again to a route after a cancelled attempt", async () => {
+      mountApp("/");
+      navigate({ name: "post", params: { id: "1" } });
+      rejectPost();
+      await vi.waitFor(() => expect(window.location.pathname).toBe("/"));
+
+      navigate({ name: "post", params: { id: "1" } });
+      expect(text(".loading")).toBe("Loading post");
+    });
+  });
+});
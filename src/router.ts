@@ -0,0 +1,325 @@
+/*
+Router mapping typed route patterns to a root action
+- Define routes: `const routes = { home: "/", user: "/users/:id" } as const`
+  `const router = createRouter(routes)`, and store `Route<typeof routes>` in rootState
+- Start in `mount` init, dispatching `SetRoute` with `{ route }` now and on each change
+  `init: (runRootAction) => router.start(runRootAction, "SetRoute")`
+- Navigate with a task: `tasks: { Navigate: router.navigate }`, then `rootTask("Navigate", { name: "user", params: { id: "1" } })`
+- Render links that navigate without reloading: `router.link({ name: "home" }, "Home")`
+
+Route guards
+- Name root tasks to run before leaving or entering a route
+  `edit: { path: "/posts/:id/edit", beforeEnter: "LoadPost", beforeLeave: "ConfirmLeave" }`
+- Start with a request action, e.g. `router.start(runRootAction, "RequestRoute")`, that starts
+  `router.transition(state, route)`, stores the pending route and the transition's id as
+  `transitionId`, and returns `guard(transition, nextState)`
+  where `const guard = router.guard({ action, task, enter: "SetRoute" })`
+- Guard tasks receive the transition as data, and continue with `guard(transition, rootState)` on
+  success, as `rootState` in task callbacks is the state when they run
+  On failure, cancel by clearing the pending route and running `router.restore` for the current route
+- Each transition has an `id`, and a newer transition supersedes it: `guard` then returns undefined,
+  and failures check `router.isPending(transition, rootState)` before cancelling
+*/
+import { html, VNode } from "./vdom";
+import {
+  ActionThunk,
+  GetActionThunk,
+  GetTaskThunk,
+  RunAction,
+  Task,
+  TaskThunk
+} from "./pure-ui-actions.types";
+const { a } = html;
+
+export type RouteDefinition = {
+  path: string;
+  // Names of root tasks run before the route is left or entered
+  beforeLeave?: string;
+  beforeEnter?: string;
+};
+
+export type Routes = Record<string, string | RouteDefinition>;
+
+// Path pattern of a route definition
+export type RoutePath<TDefinition> = TDefinition extends string
+  ? TDefinition
+  : TDefinition extends { path: infer TPath extends string }
+    ? TPath
+    : never;
+
+export type Query = Record<string, string>;
+
+// Params named in a pattern, e.g. `{ id: string }` for "/users/:id"
+export type PathParams<TPath extends string> =
+  TPath extends `${string}:${infer Param}/${infer Rest}`
+    ? { [TKey in Param | keyof PathParams<`/${Rest}`>]: string }
+    : TPath extends `${string}:${infer Param}`
+      ? { [TKey in Param]: string }
+      : Record<never, never>;
+
+export type Route<TRoutes extends Routes> = {
+  [TName in keyof TRoutes]: {
+    name: TName;
+    params: PathParams<RoutePath<TRoutes[TName]>>;
+    query: Query;
+    path: string;
+  };
+}[keyof TRoutes];
+
+// Params are required for patterns that have them
+export type RouteTarget<TRoutes extends Routes> = {
+  [TName in keyof TRoutes]: { name: TName; query?: Query } & (keyof PathParams<
+    RoutePath<TRoutes[TName]>
+  > extends never
+    ? { params?: PathParams<RoutePath<TRoutes[TName]>> }
+    : { params: PathParams<RoutePath<TRoutes[TName]>> });
+}[keyof TRoutes];
+
+export type NavigateData<TRoutes extends Routes> = RouteTarget<TRoutes> & {
+  // Replace the current history entry instead of adding one
+  replace?: boolean;
+};
+
+// Data passed to guard tasks, `step` is the guard that has run
+export type Transition<TRoutes extends Routes> = {
+  from?: Route<TRoutes>;
+  to?: Route<TRoutes>;
+  step?: "beforeLeave" | "beforeEnter";
+  // Set by `transition` from `transitionId` in root state
+  id: number;
+};
+
+// Root state read by `transition`, `guard` and `isPending`, so that the steps of a transition
+// depend only on state
+export type TransitionState<TRoutes extends Routes> = {
+  route?: Route<TRoutes>;
+  // Id of the latest transition, stored by the request action
+  transitionId?: number;
+};
+
+export type RouterOptions = {
+  // "history" (default) uses the path, "hash" uses the fragment, e.g. `#/users/1`
+  mode?: "history" | "hash";
+  // Path prefix for history mode, e.g. "/app"
+  base?: string;
+};
+
+export type Router<TRoutes extends Routes> = {
+  start: <TActions>(runRootAction: RunAction<TActions>, actionName: keyof TActions) => () => void;
+  match: (url: string) => Route<TRoutes> | undefined;
+  href: (target: RouteTarget<TRoutes>) => string;
+  navigate: <TProps, TState, TRootState>(
+    data: NavigateData<TRoutes>
+  ) => Task<void, TProps, TState, TRootState>;
+  link: (target: RouteTarget<TRoutes>, children?: string | VNode[], data?: VNode["data"]) => VNode;
+  guard: <TActions, TTasks>(fns: {
+    action: GetActionThunk<TActions>;
+    task: GetTaskThunk<TTasks>;
+    // Root action dispatched with `{ route }` once guards pass
+    enter: keyof TActions;
+  }) => (
+    transition: Transition<TRoutes>,
+    state: TransitionState<TRoutes>
+  ) => ActionThunk | TaskThunk | undefined;
+  // A transition from the current route to `to`, with the id after `transitionId`
+  transition: (state: TransitionState<TRoutes>, to?: Route<TRoutes>) => Transition<TRoutes>;
+  // Whether `transition` is the latest started in `state`
+  isPending: (transition: Transition<TRoutes>, state: TransitionState<TRoutes>) => boolean;
+  restore: <TProps, TState, TRootState>(data: {
+    route?: Route<TRoutes>;
+  }) => Task<void, TProps, TState, TRootState>;
+};
+
+export function createRouter<const TRoutes extends Routes>(
+  routes: TRoutes,
+  { mode = "history", base = "" }: RouterOptions = {}
+): Router<TRoutes> {
+  const basePath = base.replace(/\/$/, "");
+  const definitions: Record<string, RouteDefinition> = {};
+  Object.keys(routes).forEach((name) => {
+    const route = routes[name];
+    definitions[name] = typeof route === "string" ? { path: route } : route;
+  });
+  const patterns = Object.keys(definitions).map((name) => ({
+    name,
+    segments: splitPath(definitions[name].path)
+  }));
+  // Last location dispatched by `start`
+  let lastUrl: string | undefined;
+
+  // Matches a path with an optional query string, e.g. "/users/1?tab=posts"
+  const match = (url: string): Route<TRoutes> | undefined => {
+    const [path, search = ""] = url.split("?");
+    const segments = splitPath(path);
+    for (const { name, segments: patternSegments } of patterns) {
+      const params = matchSegments(patternSegments, segments);
+      if (params) {
+        const query = Object.fromEntries(new URLSearchParams(search));
+        return { name, params, query, path } as Route<TRoutes>;
+      }
+    }
+  };
+
+  const href = ({ name, params, query }: RouteTarget<TRoutes>): string => {
+    const path = definitions[name as string].path.replace(/:(\w+)/g, (_, param: string) =>
+      encodeURIComponent((params as Record<string, string> | undefined)?.[param] ?? "")
+    );
+    const search = query && Object.keys(query).length ? `?${new URLSearchParams(query)}` : "";
+    return mode === "hash" ? `#${path}${search}` : `${basePath}${path}${search}`;
+  };
+
+  // Current location as a path with query, relative to `base`
+  const getUrl = (): string => {
+    if (mode === "hash") {
+      return window.location.hash.slice(1) || "/";
+    }
+    const { pathname, search } = window.location;
+    const path = pathname.startsWith(basePath) ? pathname.slice(basePath.length) : pathname;
+    return `${path || "/"}${search}`;
+  };
+
+  const go = (target: RouteTarget<TRoutes>, replace?: boolean): void => {
+    const url = href(target);
+    if (replace) {
+      window.history.replaceState(null, "", url);
+    } else {
+      window.history.pushState(null, "", url);
+    }
+    // `pushState` does not fire `popstate`, so notify listeners in the same way
+    window.dispatchEvent(new Event("popstate"));
+  };
+
+  return {
+    // Dispatches `actionName` with `{ route }` for the current location and each change
+    // Returns a function that stops listening
+    start(runRootAction, actionName): () => void {
+      lastUrl = undefined;
+      const onChange = (): void => {
+        const url = getUrl();
+        // Hash changes can fire both `popstate` and `hashchange`
+        if (url !== lastUrl) {
+          lastUrl = url;
+          runRootAction(actionName, { route: match(url) } as Parameters<typeof runRootAction>[1]);
+        }
+      };
+      window.addEventListener("popstate", onChange);
+      if (mode === "hash") {
+        window.addEventListener("hashchange", onChange);
+      }
+      onChange();
+      return () => {
+        window.removeEventListener("popstate", onChange);
+        window.removeEventListener("hashchange", onChange);
+      };
+    },
+
+    match,
+
+    href,
+
+    navigate: ({ replace, ...target }) => ({
+      perform: (): void => go(target as RouteTarget<TRoutes>, replace)
+    }),
+
+    link(target, children, data): VNode {
+      return a(
+        {
+          ...data,
+          attrs: { ...data?.attrs, href: href(target) },
+          on: {
+            ...data?.on,
+            click: (e: MouseEvent, vnode: VNode) => {
+              // Run the caller's click handlers first, which can cancel with `preventDefault`
+              const onClick = data?.on?.click;
+              (Array.isArray(onClick) ? onClick : onClick ? [onClick] : []).forEach((listener) =>
+                (listener as (e: MouseEvent, vnode: VNode) => void).call(vnode, e, vnode)
+              );
+              if (e.defaultPrevented) return;
+              // Let the browser handle new tab or window clicks
+              if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+              e.preventDefault();
+              go(target);
+            }
+          }
+        },
+        children
+      );
+    },
+
+    // Returns the next step of a transition: a guard task, then the `enter` action
+    // Steps of a transition superseded by a newer one return undefined, so it is dropped
+    guard({ action, task, enter }) {
+      return (transition, state): ActionThunk | TaskThunk | undefined => {
+        if (transition.id !== state.transitionId) return;
+        const { from, to, step } = transition;
+        // Query changes on the same path are not guarded
+        if (from?.path !== to?.path) {
+          const beforeLeave = from && definitions[from.name as string].beforeLeave;
+          if (!step && beforeLeave) {
+            return task(
+              beforeLeave as Parameters<typeof task>[0],
+              {
+                ...transition,
+                step: "beforeLeave"
+              } as Parameters<typeof task>[1]
+            );
+          }
+          const beforeEnter = to && definitions[to.name as string].beforeEnter;
+          if (step !== "beforeEnter" && beforeEnter) {
+            return task(
+              beforeEnter as Parameters<typeof task>[0],
+              {
+                ...transition,
+                step: "beforeEnter"
+              } as Parameters<typeof task>[1]
+            );
+          }
+        }
+        return action(enter, { route: to } as Parameters<typeof action>[1]);
+      };
+    },
+
+    transition: ({ route, transitionId = 0 }, to) => ({ from: route, to, id: transitionId + 1 }),
+
+    isPending: ({ id }, { transitionId }) => id === transitionId,
+
+    // Puts back the URL for `route` after a cancelled transition, without dispatching
+    restore: ({ route }) => ({
+      perform: (): void => {
+        if (route) {
+          window.history.replaceState(null, "", href(route as RouteTarget<TRoutes>));
+          lastUrl = getUrl();
+        }
+      }
+    })
+  };
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+// Returns params when segments match the pattern
+function matchSegments(pattern: string[], segments: string[]): Record<string, string> | undefined {
+  if (pattern.length !== segments.length) return;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(":")) {
+      const param = decodeSegment(segments[i]);
+      if (param === undefined) return;
+      params[pattern[i].slice(1)] = param;
+    } else if (pattern[i] !== segments[i]) {
+      return;
+    }
+  }
+  return params;
+}
+
+// Malformed escapes, e.g. "%E0%A4%A", leave the path unmatched rather than throwing
+function decodeSegment(segment: string): string | undefined {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,232 @@
+import { vi } from "vitest";
+import {
+  _setTestKey,
+  appEvent,
+  component,
+  createEventBus,
+  html,
+  interval,
+  mount,
+  publish,
+  renderToString,
+  Subscription,
+  windowEvent
+} from "./pure-ui-actions";
+const { div } = html;
+const testKey = _setTestKey({});
+
+declare module "./pure-ui-actions" {
+  interface EventMap {
+    CartUpdated: { count: number };
+  }
+}
+
+describe("Subscriptions", () => {
+  type ClockComponent = {
+    Props: { ms: number };
+    State: { ticks: number; running: boolean; width: number };
+    ActionPayloads: { Tick: { time: number }; Stop: null; Resize: null; Bump: null };
+  };
+
+  let clockAction: Function;
+  let parentAction: Function;
+  let extra: Subscription<keyof ClockComponent["ActionPayloads"]>[];
+
+  const clock = component<ClockComponent>(({ action }) => {
+    clockAction = action;
+    return {
+      state: () => ({ ticks: 0, running: true, width: 0 }),
+      actions: {
+        Tick: (_, { state }) => ({ state: { ...state, ticks: state.ticks + 1 } }),
+        Stop: (_, { state }) => ({ state: { ...state, running: false } }),
+        Resize: (_, { state, event }) => ({
+          state: { ...state, width: (event?.target as typeof window).innerWidth }
+        }),
+        Bump: (_, { state }) => ({ state: { ...state, ticks: state.ticks + 100 } })
+      },
+      subscriptions: ({ props, state }) => [
+        state.running && interval(props.ms, "Tick"),
+        windowEvent("resize", "Resize"),
+        ...extra
+      ],
+      view: (id, { state }) => div(`#${id}`, String(state.ticks))
+    };
+  });
+
+  const app = component<{ State: { show: boolean }; ActionPayloads: { Hide: null } }>(
+    ({ action }) => {
+      parentAction = action;
+      return {
+        state: () => ({ show: true }),
+        actions: {
+          Hide: (_, { state }) => ({ state: { ...state, show: false } })
+        },
+        view: (id, { state }) =>
+          div(`#${id}`, [state.show ? clock("clock", { ms: 1000 }) : div("empty")])
+      };
+    }
+  );
+
+  const text = (): string | null | undefined => document.getElementById("clock")?.textContent;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    extra = [];
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should dispatch the named action for each emitted value", () => {
+    mount({ app, props: {} });
+    vi.advanceTimersByTime(3000);
+    expect(text()).toBe("3");
+  });
+
+  it("should pass emitted events to the action", () => {
+    const { getComponentRegistry } = mount({ app, props: {} });
+    window.dispatchEvent(new Event("resize"));
+    expect(getComponentRegistry().get("clock")?.state?.width).toBe(window.innerWidth);
+  });
+
+  it("should stop subscriptions no longer returned", () => {
+    mount({ app, props: {} });
+    vi.advanceTimersByTime(1000);
+    clockAction("Stop")(testKey);
+    vi.advanceTimersByTime(3000);
+    expect(text()).toBe("1");
+  });
+
+  it("should keep running subscriptions across renders", () => {
+    const start = vi.fn(() => () => {});
+    extra = [{ key: "custom", action: "Bump", start }];
+    mount({ app, props: {} });
+    vi.advanceTimersByTime(3000);
+    expect(start).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop subscriptions when the component is removed", () => {
+    const stop = vi.fn();
+    extra = [{ key: "custom", action: "Bump", start: () => stop }];
+    const { getComponentRegistry } = mount({ app, props: {} });
+    parentAction("Hide")(testKey);
+
+    expect(stop).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+    expect(getComponentRegistry().has("clock")).toBe(false);
+  });
+
+  it("should stop subscriptions on unmount", () => {
+    const stop = vi.fn();
+    extra = [{ key: "custom", action: "Bump", start: () => stop }];
+    const { unmount } = mount({ app, props: {} });
+    unmount();
+
+    expect(stop).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should dispatch values emitted while starting after the render", async () => {
+    extra = [
+      {
+        key: "immediate",
+        action: "Bump",
+        start: (emit) => {
+          emit();
+          return () => {};
+        }
+      }
+    ];
+    mount({ app, props: {} });
+    expect(text()).toBe("0");
+    await Promise.resolve();
+    expect(text()).toBe("100");
+  });
+
+  it("should not start subscriptions when rendering to a string", () => {
+    const start = vi.fn(() => () => {});
+    extra = [{ key: "custom", action: "Bump", start }];
+    renderToString(app, {});
+    expect(start).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe("Event subscriptions", () => {
+  type CartEvents = { CartUpdated: { count: number } };
+  const bus = createEventBus<CartEvents>();
+
+  type BadgeComponent = {
+    State: { count: number };
+    ActionPayloads: { SetCount: { count: number } };
+  };
+
+  const badge = component<BadgeComponent>(() => ({
+    state: () => ({ count: 0 }),
+    actions: {
+      SetCount: ({ count }, { state }) => ({ state: { ...state, count } })
+    },
+    subscriptions: () => [
+      appEvent("CartUpdated", "SetCount"),
+      bus.listen("CartUpdated", "SetCount")
+    ],
+    view: (id, { state }) => div(`#${id}`, String(state.count))
+  }));
+
+  let parentAction: Function;
+  const app = component<{ State: { show: boolean }; ActionPayloads: { Hide: null } }>(
+    ({ action }) => {
+      parentAction = action;
+      return {
+        state: () => ({ show: true }),
+        actions: {
+          Hide: (_, { state }) => ({ state: { ...state, show: false } })
+        },
+        view: (id, { state }) => div(`#${id}`, [state.show ? badge("badge") : div("empty")])
+      };
+    }
+  );
+
+  const count = (): string | null | undefined => document.getElementById("badge")?.textContent;
+
+  beforeEach(() => {
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  it("should dispatch the action with events sent by publish", () => {
+    mount({ app, props: {} });
+    publish("CartUpdated", { count: 2 });
+    expect(count()).toBe("2");
+  });
+
+  it("should dispatch the action with events from an event bus", () => {
+    mount({ app, props: {} });
+    bus.publish("CartUpdated", { count: 3 });
+    expect(count()).toBe("3");
+  });
+
+  it("should remove listeners when the component is destroyed", () => {
+    const { getComponentRegistry } = mount({ app, props: {} });
+    parentAction("Hide")(testKey);
+
+    publish("CartUpdated", { count: 2 });
+    bus.publish("CartUpdated", { count: 3 });
+    expect(getComponentRegistry().has("badge")).toBe(false);
+    expect(document.getElementById("badge")).toBeNull();
+  });
+
+  it("should type check event details", () => {
+    // Checked by the type-check only
+    const invalid = (): void => {
+      // @ts-expect-error count must be a number
+      publish("CartUpdated", { count: "2" });
+      // @ts-expect-error detail is required
+      bus.publish("CartUpdated");
+      // @ts-expect-error unknown event
+      publish("CartEmptied");
+    };
+    expect(invalid).toBeInstanceOf(Function);
+  });
+});
@@ -0,0 +1,70 @@
+/*
+Subscription descriptors for common browser sources, for use in `Config.subscriptions`, e.g.
+`subscriptions: ({ state }) => [state.polling && interval(1000, "Poll")]`
+*/
+import { EventMap, Subscription } from "./pure-ui-actions.types";
+
+// Dispatches `action` every `ms` with `{ time }`
+export function interval<TActionName extends string>(
+  ms: number,
+  action: TActionName
+): Subscription<TActionName> {
+  return {
+    key: `interval:${ms}:${action}`,
+    action,
+    start: (emit) => {
+      const timer = setInterval(() => emit({ time: Date.now() }), ms);
+      return () => clearInterval(timer);
+    }
+  };
+}
+
+// Dispatches `action` for each window event of `type`, available as `event` in the action
+export function windowEvent<TActionName extends string>(
+  type: string,
+  action: TActionName
+): Subscription<TActionName> {
+  return {
+    key: `window:${type}:${action}`,
+    action,
+    start: (emit) => {
+      const listener = (event: Event): void => emit(undefined, event);
+      window.addEventListener(type, listener);
+      return () => window.removeEventListener(type, listener);
+    }
+  };
+}
+
+// Dispatches `action` with `{ matches }` when the media query result changes
+export function mediaQuery<TActionName extends string>(
+  query: string,
+  action: TActionName
+): Subscription<TActionName> {
+  return {
+    key: `media:${query}:${action}`,
+    action,
+    start: (emit) => {
+      const mql = window.matchMedia(query);
+      const listener = (event: MediaQueryListEvent): void => emit({ matches: event.matches });
+      mql.addEventListener("change", listener);
+      return () => mql.removeEventListener("change", listener);
+    }
+  };
+}
+
+// Dispatches `action` with the detail of each event of `type` sent with `publish`
+export function appEvent<TType extends keyof EventMap, TActionName extends string>(
+  type: TType,
+  action: TActionName
+): Subscription<TActionName> {
+  return {
+    key: `event:${type}:${action}`,
+    action,
+    start: (emit) => {
+      const listener = (event: Event): void =>
+        emit((event as CustomEvent).detail ?? undefined, event);
+      document.addEventListener(type, listener);
+      return () => document.removeEventListener(type, listener);
+    }
+  };
+}
@@ -0,0 +1,218 @@
+import { _setTestKey, component, html, mount, TaskConcurrency } from "./pure-ui-actions";
+const { div } = html;
+const testKey = _setTestKey({});
+
+type Deferred = {
+  input: string;
+  signal: AbortSignal;
+  resolve: (value: string) => void;
+  reject: (err: Error) => void;
+};
+
+describe("Task concurrency", () => {
+  let deferreds: Deferred[];
+  let results: string[];
+  let failures: string[];
+  let task: Function;
+  let parentAction: Function;
+
+  type ChildComponent = {
+    Props: { concurrency?: TaskConcurrency };
+    State: { result: string };
+    ActionPayloads: { SetResult: { text: string } };
+    TaskPayloads: { Search: { input: string } };
+  };
+
+  const child = component<ChildComponent>(({ action, task: t }) => {
+    task = t;
+    return {
+      state: () => ({ result: "" }),
+      actions: {
+        SetResult: ({ text }, { state }) => ({ state: { ...state, result: text } })
+      },
+      tasks: {
+        Search: ({ input }) => ({
+          perform: (signal) =>
+            new Promise<string>((resolve, reject) => {
+              deferreds.push({ input, signal, resolve, reject });
+            }),
+          success: (text: string) => {
+            results.push(text);
+            return action("SetResult", { text });
+          },
+          failure: (err: { message?: string }) => {
+            failures.push(err.message ?? "");
+            return undefined;
+          },
+          concurrency: concurrencyOption
+        })
+      },
+      view: (id, { state }) => div(`#${id}`, state.result)
+    };
+  });
+
+  let concurrencyOption: TaskConcurrency | undefined;
+
+  const app = component<{ State: { show: boolean }; ActionPayloads: { Hide: null } }>(
+    ({ action }) => {
+      parentAction = action;
+      return {
+        state: () => ({ show: true }),
+        actions: {
+          Hide: (_, { state }) => ({ state: { ...state, show: false } })
+        },
+        view: (id, { state }) => div(`#${id}`, [state.show ? child("child", {}) : div("empty")])
+      };
+    }
+  );
+
+  const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve));
+
+  function search(input: string): Promise<void> {
+    return task("Search", { input })(testKey);
+  }
+
+  beforeEach(() => {
+    deferreds = [];
+    results = [];
+    failures = [];
+    concurrencyOption = undefined;
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  it("should pass an AbortSignal to perform", () => {
+    mount({ app, props: {} });
+    search("a");
+    expect(deferreds[0].signal).toBeInstanceOf(AbortSignal);
+    expect(deferreds[0].signal.aborted).toBe(false);
+  });
+
+  describe("parallel (default)", () => {
+    it("should deliver every result in completion order", async () => {
+      mount({ app, props: {} });
+      const pending = [search("a"), search("b")];
+      deferreds[1].resolve("b");
+      deferreds[0].resolve("a");
+      await Promise.all(pending);
+
+      expect(results).toEqual(["b", "a"]);
+      expect(document.getElementById("child")?.textContent).toBe("a");
+    });
+  });
+
+  describe("takeLatest", () => {
+    beforeEach(() => {
+      concurrencyOption = "takeLatest";
+      mount({ app, props: {} });
+    });
+
+    it("should abort the previous run", () => {
+      search("a");
+      search("b");
+      expect(deferreds[0].signal.aborted).toBe(true);
+      expect(deferreds[1].signal.aborted).toBe(false);
+    });
+
+    it("should ignore results of earlier runs that resolve out of order", async () => {
+      const pending = [search("a"), search("b")];
+      deferreds[1].resolve("b");
+      deferreds[0].resolve("a");
+      await Promise.all(pending);
+
+      expect(results).toEqual(["b"]);
+      expect(document.getElementById("child")?.textContent).toBe("b");
+    });
+
+    it("should ignore failures of aborted runs", async () => {
+      const pending = [search("a"), search("b")];
+      deferreds[0].reject(new Error("AbortError"));
+      deferreds[1].resolve("b");
+      await Promise.all(pending);
+
+      expect(failures).toEqual([]);
+      expect(results).toEqual(["b"]);
+    });
+  });
+
+  describe("takeFirst", () => {
+    beforeEach(() => {
+      concurrencyOption = "takeFirst";
+      mount({ app, props: {} });
+    });
+
+    it("should drop runs while one is in progress", async () => {
+      const pending = [search("a"), search("b")];
+      expect(deferreds.map((d) => d.input)).toEqual(["a"]);
+
+      deferreds[0].resolve("a");
+      await Promise.all(pending);
+      expect(results).toEqual(["a"]);
+    });
+
+    it("should run again once the previous run completes", async () => {
+      const first = search("a");
+      deferreds[0].resolve("a");
+      await first;
+
+      const second = search("b");
+      deferreds[1].resolve("b");
+      await second;
+      expect(results).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("queue", () => {
+    beforeEach(() => {
+      concurrencyOption = "queue";
+      mount({ app, props: {} });
+    });
+
+    it("should wait for the previous run before performing", async () => {
+      const pending = [search("a"), search("b")];
+      expect(deferreds.map((d) => d.input)).toEqual(["a"]);
+
+      deferreds[0].resolve("a");
+      await flush();
+      expect(deferreds.map((d) => d.input)).toEqual(["a", "b"]);
+
+      deferreds[1].resolve("b");
+      await Promise.all(pending);
+      expect(results).toEqual(["a", "b"]);
+    });
+
+    it("should continue the queue after a failure", async () => {
+      const pending = [search("a"), search("b")];
+      deferreds[0].reject(new Error("a failed"));
+      await flush();
+
+      deferreds[1].resolve("b");
+      await Promise.all(pending);
+      expect(failures).toEqual(["a failed"]);
+      expect(results).toEqual(["b"]);
+    });
+  });
+
+  describe("component removal", () => {
+    it("should abort running tasks when the component is removed", async () => {
+      mount({ app, props: {} });
+      const pending = search("a");
+      parentAction("Hide")(testKey);
+
+      expect(deferreds[0].signal.aborted).toBe(true);
+      deferreds[0].resolve("a");
+      await pending;
+      expect(results).toEqual([]);
+    });
+
+    it("should not perform queued runs after the component is removed", async () => {
+      concurrencyOption = "queue";
+      mount({ app, props: {} });
+      const pending = [search("a"), search("b")];
+      parentAction("Hide")(testKey);
+
+      deferreds[0].resolve("a");
+      await Promise.all(pending);
+      expect(deferreds.map((d) => d.input)).toEqual(["a"]);
+    });
+  });
+});
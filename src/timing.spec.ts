@@ -0,0 +1,220 @@
+import { vi } from "vitest";
+import { _setTestKey, component, componentTest, html, mount } from "./pure-ui-actions";
+import { withTiming } from "./timing";
+const { div, input } = html;
+const testKey = _setTestKey({});
+
+describe("withTiming", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("debounce", () => {
+    it("should run once with the last arguments after calls stop", () => {
+      const fn = vi.fn();
+      const timed = withTiming(fn, { debounce: 100 });
+      timed(1);
+      vi.advanceTimersByTime(50);
+      timed(2);
+      vi.advanceTimersByTime(50);
+      timed(3);
+      expect(fn).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(100);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledWith(3);
+    });
+
+    it("should run on the leading edge only", () => {
+      const fn = vi.fn();
+      const timed = withTiming(fn, { debounce: 100, leading: true, trailing: false });
+      timed(1);
+      timed(2);
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[1]]);
+
+      timed(3);
+      expect(fn.mock.calls).toEqual([[1], [3]]);
+    });
+
+    it("should run on both edges", () => {
+      const fn = vi.fn();
+      const timed = withTiming(fn, { debounce: 100, leading: true });
+      timed(1);
+      timed(2);
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[1], [2]]);
+    });
+  });
+
+  describe("throttle", () => {
+    it("should run at most once per period, leading and trailing", () => {
+      const fn = vi.fn();
+      const timed = withTiming(fn, { throttle: 100 });
+      timed(1);
+      timed(2);
+      timed(3);
+      expect(fn.mock.calls).toEqual([[1]]);
+
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[1], [3]]);
+
+      // The trailing call starts a new period
+      timed(4);
+      expect(fn.mock.calls).toEqual([[1], [3]]);
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[1], [3], [4]]);
+
+      vi.advanceTimersByTime(100);
+      timed(5);
+      expect(fn.mock.calls).toEqual([[1], [3], [4], [5]]);
+    });
+
+    it("should skip the trailing call", () => {
+      const fn = vi.fn();
+      const timed = withTiming(fn, { throttle: 100, trailing: false });
+      timed(1);
+      timed(2);
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[1]]);
+    });
+
+    it("should skip the leading call", () => {
+      const fn = vi.fn();
+      const timed = withTiming(fn, { throttle: 100, leading: false });
+      timed(1);
+      timed(2);
+      expect(fn).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[2]]);
+    });
+  });
+
+  it("should cancel a pending call", () => {
+    const fn = vi.fn();
+    const timed = withTiming(fn, { debounce: 100 });
+    timed(1);
+    timed.cancel();
+    vi.advanceTimersByTime(100);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe("Timed thunks", () => {
+  type SearchComponent = {
+    Props: Record<string, never>;
+    State: { filter: string; searches: string[] };
+    ActionPayloads: { SetFilter: null; Hide: null };
+    TaskPayloads: { Search: { text: string } };
+  };
+
+  let action: Function;
+  let task: Function;
+  let perform: ReturnType<typeof vi.fn>;
+
+  const search = component<SearchComponent>(({ action: a, task: t }) => {
+    action = a;
+    task = t;
+    return {
+      state: () => ({ filter: "", searches: [] }),
+      actions: {
+        SetFilter: (_, { state, event }) => {
+          const filter = (event?.target as HTMLInputElement).value;
+          return { state: { ...state, filter }, next: t("Search", { text: filter }) };
+        },
+        Hide: (_, { state }) => ({ state })
+      },
+      tasks: {
+        Search: ({ text }) => ({ perform: () => perform(text) })
+      },
+      view: (id, { state }) =>
+        div(`#${id}`, [
+          input(`#${id}-filter`, { on: { input: a("SetFilter", null, { debounce: 200 }) } }),
+          div(`#${id}-text`, state.filter)
+        ])
+    };
+  });
+
+  function type(value: string): void {
+    const field = document.getElementById("app-filter") as HTMLInputElement;
+    field.value = value;
+    field.dispatchEvent(new Event("input"));
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    perform = vi.fn();
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should debounce a DOM event action", async () => {
+    mount({ app: search, props: {} });
+    type("M");
+    type("Mo");
+    type("Mon");
+    expect(document.getElementById("app-text")?.textContent).toBe("");
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(document.getElementById("app-text")?.textContent).toBe("Mon");
+    expect(perform.mock.calls).toEqual([["Mon"]]);
+  });
+
+  it("should memoize thunks by timing", () => {
+    mount({ app: search, props: {} });
+    expect(action("SetFilter", null, { debounce: 200 })).toBe(
+      action("SetFilter", null, { debounce: 200 })
+    );
+    expect(action("SetFilter", null, { debounce: 200 })).not.toBe(action("SetFilter", null));
+    expect(action("SetFilter", null, { debounce: 200 }).timing).toEqual({ debounce: 200 });
+  });
+
+  it("should throttle a task thunk", () => {
+    mount({ app: search, props: {} });
+    const thunk = task("Search", { text: "a" }, { throttle: 100 });
+    thunk(testKey);
+    thunk(testKey);
+    thunk(testKey);
+    expect(perform).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(100);
+    expect(perform).toHaveBeenCalledTimes(2);
+  });
+
+  it("should still throw when called manually", () => {
+    mount({ app: search, props: {} });
+    expect(() => action("SetFilter", null, { debounce: 200 })()).toThrow(
+      '#app "SetFilter" cannot be invoked manually'
+    );
+  });
+
+  it("should cancel pending calls when the app is unmounted", () => {
+    const { unmount } = mount({ app: search, props: {} });
+    type("Mon");
+    unmount();
+    expect(() => vi.advanceTimersByTime(200)).not.toThrow();
+    expect(perform).not.toHaveBeenCalled();
+  });
+
+  it("should include timing in componentTest data", () => {
+    const { config } = componentTest<SearchComponent>(search);
+    const view = config.view("app", {
+      props: {},
+      state: { filter: "", searches: [] },
+      rootState: {}
+    });
+    const field = view.children?.[0] as { data: { on: { input: unknown } } };
+    expect(field.data.on.input).toEqual({
+      name: "SetFilter",
+      data: null,
+      timing: { debounce: 200 }
+    });
+  });
+});
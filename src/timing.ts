@@ -0,0 +1,68 @@
+/*
+Debounce and throttle for action and task thunks, e.g. `action("SetFilter", null, { debounce: 200 })`
+- debounce: runs after `debounce` ms without calls (trailing by default)
+- throttle: runs at most once per `throttle` ms (leading and trailing by default)
+*/
+import { ThunkTiming } from "./pure-ui-actions.types";
+
+export type TimedFn<TArgs extends unknown[]> = {
+  (...args: TArgs): void;
+  cancel: () => void;
+};
+
+export function withTiming<TArgs extends unknown[]>(
+  fn: (...args: TArgs) => unknown,
+  timing: ThunkTiming
+): TimedFn<TArgs> {
+  const isDebounce = timing.debounce !== undefined;
+  const wait = timing.debounce ?? timing.throttle ?? 0;
+  const leading = timing.leading ?? !isDebounce;
+  const trailing = timing.trailing ?? true;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pendingArgs: TArgs | undefined;
+
+  const runPending = (): boolean => {
+    if (trailing && pendingArgs) {
+      const args = pendingArgs;
+      pendingArgs = undefined;
+      fn(...args);
+      return true;
+    }
+    pendingArgs = undefined;
+    return false;
+  };
+
+  const onDebounceEnd = (): void => {
+    timer = undefined;
+    runPending();
+  };
+
+  // A trailing call starts a new throttle period
+  const onThrottleEnd = (): void => {
+    timer = runPending() ? setTimeout(onThrottleEnd, wait) : undefined;
+  };
+
+  const timed = (...args: TArgs): void => {
+    const isIdle = timer === undefined;
+    if (isIdle && leading) {
+      fn(...args);
+    } else {
+      pendingArgs = args;
+    }
+    if (isDebounce) {
+      clearTimeout(timer);
+      timer = setTimeout(onDebounceEnd, wait);
+    } else if (isIdle) {
+      timer = setTimeout(onThrottleEnd, wait);
+    }
+  };
+
+  timed.cancel = (): void => {
+    clearTimeout(timer);
+    timer = undefined;
+    pendingArgs = undefined;
+  };
+
+  return timed;
+}
@@ -0,0 +1,139 @@
+/*
+Serialise a VNode tree to an HTML string, without a DOM
+Mirrors the output of the snabbdom modules used in `vdom.ts` (class, attributes, props)
+*/
+import { parseSelector, VNode } from "./vdom";
+
+const voidElements = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr"
+]);
+
+// DOM props that are written under a different attribute name
+export const propAttrNames: Record<string, string> = {
+  className: "class",
+  htmlFor: "for",
+  tabIndex: "tabindex",
+  readOnly: "readonly",
+  maxLength: "maxlength"
+};
+
+// Props that set content rather than attributes
+const contentProps = new Set(["innerHTML", "textContent", "innerText"]);
+
+export function toHTML(vnode: VNode | string | null | undefined): string {
+  if (vnode === null || vnode === undefined) {
+    return "";
+  }
+  if (typeof vnode === "string") {
+    return escapeText(vnode);
+  }
+
+  // `memo` (snabbdom thunk) nodes render their content on init
+  const data = vnode.data as
+    | (VNode["data"] & { fn?: (...args: unknown[]) => VNode; args?: unknown[] })
+    | undefined;
+  if (data?.fn && data.args) {
+    return toHTML(data.fn(...data.args));
+  }
+
+  if (vnode.sel === undefined || vnode.sel === "") {
+    return escapeText(vnode.text ?? "");
+  }
+  if (vnode.sel === "!") {
+    return `<!--${vnode.text ?? ""}-->`;
+  }
+
+  const { tag, id, classes: selClasses } = parseSelector(vnode.sel);
+  const attrs = new Map<string, string>();
+  let content = "";
+
+  if (id !== undefined) {
+    attrs.set("id", id);
+  }
+  if (selClasses.length) {
+    attrs.set("class", selClasses.join(" "));
+  }
+
+  Object.entries(data?.attrs ?? {}).forEach(([key, value]) => {
+    setAttr(attrs, key, value);
+  });
+
+  Object.entries(data?.props ?? {}).forEach(([key, value]) => {
+    if (key === "innerHTML") {
+      content = String(value ?? "");
+    } else if (contentProps.has(key)) {
+      content = escapeText(String(value ?? ""));
+    } else if (["string", "number", "boolean"].includes(typeof value)) {
+      setAttr(attrs, propAttrNames[key] ?? key, value as string | number | boolean);
+    }
+  });
+
+  const classes = new Set((attrs.get("class") ?? "").split(" ").filter(Boolean));
+  Object.entries(data?.class ?? {}).forEach(([name, on]) => {
+    if (on) {
+      classes.add(name);
+    } else {
+      classes.delete(name);
+    }
+  });
+  if (classes.size) {
+    attrs.set("class", Array.from(classes).join(" "));
+  } else {
+    attrs.delete("class");
+  }
+
+  const attrStr = Array.from(attrs.entries())
+    .map(([key, value]) => (value === "" ? ` ${key}` : ` ${key}="${escapeAttr(value)}"`))
+    .join("");
+
+  if (voidElements.has(tag)) {
+    return `<${tag}${attrStr}>`;
+  }
+
+  if (!content) {
+    if (vnode.children && vnode.children.length) {
+      content = vnode.children.map((child) => toHTML(child as VNode | string)).join("");
+    } else if (vnode.text !== undefined) {
+      content = escapeText(vnode.text);
+    }
+  }
+  return `<${tag}${attrStr}>${content}</${tag}>`;
+}
+
+function setAttr(attrs: Map<string, string>, key: string, value: unknown): void {
+  const attrValue = toAttrValue(value);
+  if (attrValue === undefined) {
+    attrs.delete(key);
+  } else {
+    attrs.set(key, attrValue);
+  }
+}
+
+// Booleans follow the attributes module: `true` is an empty attribute, `false` is removed
+export function toAttrValue(value: unknown): string | undefined {
+  if (value === true) {
+    return "";
+  }
+  return value === false || value === null || value === undefined ? undefined : String(value);
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttr(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
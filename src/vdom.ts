@@ -1,16 +1,16 @@
-import {
-  init,
-  h,
-  classModule,
-  attributesModule,
-  propsModule,
-  eventListenersModule
-} from "snabbdom";
+// Modules are imported directly, as the snabbdom index includes the style module
+// which reads `window` on import and would prevent rendering in Node
+import { init } from "snabbdom/build/init.js";
+import { h } from "snabbdom/build/h.js";
+import { thunk } from "snabbdom/build/thunk.js";
+import { classModule } from "snabbdom/build/modules/class.js";
+import { attributesModule } from "snabbdom/build/modules/attributes.js";
+import { propsModule } from "snabbdom/build/modules/props.js";
+import { eventListenersModule } from "snabbdom/build/modules/eventlisteners.js";
 import hyperscriptHelpers from "hyperscript-helpers";
 import type { VNode, Hooks } from "snabbdom";
-import { thunk } from "snabbdom";
 export type { VNode };
-export { thunk, thunk as memo };
+export { h, thunk, thunk as memo };
 
 export const patch = init([classModule, attributesModule, propsModule, eventListenersModule]);
 
@@ -24,3 +24,16 @@ export function setHook(vnode: VNode, hookName: keyof Hooks, callback: () => voi
     vnode.data.hook[hookName] = callback;
   }
 }
+
+// Same parsing as snabbdom's `createElm`, e.g. `div#app.page.dark`
+export function parseSelector(sel: string): { tag: string; id?: string; classes: string[] } {
+  const hashIdx = sel.indexOf("#");
+  const dotIdx = sel.indexOf(".", hashIdx);
+  const hash = hashIdx > 0 ? hashIdx : sel.length;
+  const dot = dotIdx > 0 ? dotIdx : sel.length;
+  return {
+    tag: hashIdx !== -1 || dotIdx !== -1 ? sel.slice(0, Math.min(hash, dot)) : sel,
+    id: hash < dot ? sel.slice(hash + 1, dot) : undefined,
+    classes: dotIdx > 0 ? sel.slice(dot + 1).split(".") : []
+  };
+}
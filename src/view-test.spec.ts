@@ -0,0 +1,274 @@
+import { vi } from "vitest";
+import {
+  ActionThunk,
+  component,
+  componentTest,
+  getComponentRegistry,
+  html,
+  memo,
+  ThunkType,
+  viewSnapshotSerializer
+} from "./pure-ui-actions";
+const { button, div, input, li, span, ul } = html;
+
+describe("viewTest", () => {
+  type BadgeComponent = {
+    Props: { text: string; onClear: ActionThunk };
+    State: { clicks: number };
+    ActionPayloads: { Click: null };
+    TaskPayloads: { Track: null };
+  };
+
+  const trackPerform = vi.fn();
+
+  const badge = component<BadgeComponent>(({ action, task }) => ({
+    state: () => ({ clicks: 0 }),
+    init: task("Track"),
+    actions: {
+      Click: (_, { state }) => ({ state: { clicks: state.clicks + 1 } })
+    },
+    tasks: {
+      Track: () => ({ perform: trackPerform })
+    },
+    view: (id, { props }) =>
+      span(`#${id}.badge`, { on: { click: action("Click"), dblclick: props.onClear } }, props.text)
+  }));
+
+  type ListComponent = {
+    Props: { title: string };
+    State: { items: string[]; filter: string; selected?: string };
+    RootState: { theme: string };
+    ActionPayloads: {
+      Select: { item: string };
+      SetFilter: null;
+      Clear: null;
+    };
+    TaskPayloads: { Save: { items: string[] } };
+  };
+
+  const list = component<ListComponent>(({ action, task }) => ({
+    state: () => ({ items: ["Apples", "Pears"], filter: "" }),
+    actions: {
+      Select: ({ item }, { state }) => ({ state: { ...state, selected: item } }),
+      SetFilter: (_, { state }) => ({ state }),
+      Clear: (_, { state }) => ({ state: { ...state, items: [] } })
+    },
+    tasks: {
+      Save: () => ({ perform: (): void => {} })
+    },
+    view: (id, { props, state, rootState }) =>
+      div(`#${id}.list`, { class: { dark: rootState.theme === "dark" } }, [
+        span(".title", props.title),
+        input({
+          attrs: { type: "search", placeholder: "Filter" },
+          props: { value: state.filter },
+          on: { input: action("SetFilter", null, { debounce: 200 }) }
+        }),
+        state.items.length
+          ? ul(
+              state.items.map((item) =>
+                li(
+                  `.item`,
+                  {
+                    key: item,
+                    class: { selected: item === state.selected },
+                    on: { click: action("Select", { item }) }
+                  },
+                  [span(".name", item)]
+                )
+              )
+            )
+          : span(".empty", "No items"),
+        state.filter ? null : span(".hint", "Type to filter"),
+        memo("div", "footer", (count: number) => div(".count", `${count} items`), [
+          state.items.length
+        ]),
+        button(
+          "#save.primary",
+          { attrs: { type: "submit" }, on: { click: task("Save", { items: state.items }) } },
+          "Save"
+        ),
+        badge(`#${id}-badge`, { text: "New", onClear: action("Clear") })
+      ])
+  }));
+
+  const { viewTest } = componentTest<ListComponent>(list, { title: "Fruit" });
+
+  it("should render the initial state and props by default", () => {
+    const view = viewTest();
+    expect(view.tag).toBe("div");
+    expect(view.id).toBe("test");
+    expect(view.classes).toEqual(["list"]);
+    expect(view.find(".title")?.text).toBe("Fruit");
+    expect(view.findAll("li").map((item) => item.text)).toEqual(["Apples", "Pears"]);
+  });
+
+  it("should render the given state, props and rootState", () => {
+    const view = viewTest(
+      { items: ["Plums"], filter: "P", selected: "Plums" },
+      { title: "Stone fruit" },
+      { theme: "dark" }
+    );
+    expect(view.hasClass("dark")).toBe(true);
+    expect(view.findByClass("title")?.text).toBe("Stone fruit");
+    expect(view.find("li.item.selected")?.text).toBe("Plums");
+    expect(view.find("input")?.props).toEqual({ value: "P" });
+  });
+
+  it("should find by selector", () => {
+    const view = viewTest();
+    expect(view.find("button#save.primary")?.text).toBe("Save");
+    expect(view.find('[type="submit"]')?.id).toBe("save");
+    expect(view.find("input[placeholder]")?.attrs).toEqual({
+      type: "search",
+      placeholder: "Filter"
+    });
+    expect(view.findAll("ul .name").map((name) => name.text)).toEqual(["Apples", "Pears"]);
+    expect(view.findAll(".list .name").length).toBe(2);
+    expect(view.findAll(".title .name")).toEqual([]);
+    expect(view.find("table")).toBeUndefined();
+  });
+
+  it("should find by id, class and text", () => {
+    const view = viewTest();
+    expect(view.findById("save")?.tag).toBe("button");
+    expect(view.findAllByClass("item").length).toBe(2);
+    expect(view.findByText("Pears")?.classes).toEqual(["name"]);
+    expect(view.findAllByText(/^(Apples|Pears)$/).map((name) => name.tag)).toEqual([
+      "span",
+      "span"
+    ]);
+    expect(viewTest({ items: [], filter: "" }).findByText("No items")?.hasClass("empty")).toBe(
+      true
+    );
+  });
+
+  it("should render memo content", () => {
+    expect(viewTest().find(".count")?.text).toBe("2 items");
+  });
+
+  it("should return event handlers as next data", () => {
+    const view = viewTest();
+    expect(view.findAll("li")[1].on("click")).toEqual({
+      name: "Select",
+      data: { item: "Pears" }
+    });
+    expect(view.find("input")?.on("input")).toEqual({
+      name: "SetFilter",
+      data: null,
+      timing: { debounce: 200 }
+    });
+    expect(view.findById("save")?.on("click")).toEqual({
+      name: "Save",
+      data: { items: ["Apples", "Pears"] }
+    });
+    expect(view.findById("save")?.on("focus")).toBeUndefined();
+  });
+
+  it("should render child components without adding them to the registry", () => {
+    const registrySize = getComponentRegistry().size;
+    const view = viewTest();
+    const childBadge = view.findById("test-badge");
+    expect(childBadge?.text).toBe("New");
+    expect(childBadge?.on("dblclick")).toEqual({ name: "Clear" });
+    // The child's own handlers are thunks, as the child is not under test
+    expect(childBadge?.on("click")).toEqual(expect.any(Function));
+    expect((childBadge?.on("click") as ActionThunk).type).toBe(ThunkType.Action);
+
+    // Each render has its own registry, so the child's id is free to render again
+    expect(() => viewTest()).not.toThrow();
+    expect(getComponentRegistry().size).toBe(registrySize);
+    expect(trackPerform).not.toHaveBeenCalled();
+  });
+
+  it("should give child components the rootState, and root actions and tasks as data", () => {
+    type PageComponent = {
+      RootState: { theme: string };
+      RootActionPayloads: { SetTheme: { theme: string } };
+      RootTaskPayloads: { SetDocTitle: { title: string } };
+    };
+    const page = component<PageComponent>(({ rootAction, rootTask }) => ({
+      init: rootTask("SetDocTitle", { title: "Page" }),
+      view: (id, { rootState }) =>
+        button(`#${id}.${rootState.theme}`, {
+          on: { click: rootAction("SetTheme", { theme: "light" }) }
+        })
+    }));
+    const shell = component<{ RootState: { theme: string } }>(() => ({
+      view: (id) => div(`#${id}`, [page(`${id}-page`, {})])
+    }));
+
+    const view = componentTest<{ RootState: { theme: string } }>(shell).viewTest(
+      undefined,
+      undefined,
+      { theme: "dark" }
+    );
+    const child = view.findById("test-page");
+    expect(child?.classes).toEqual(["dark"]);
+    expect(child?.on("click")).toEqual({ name: "SetTheme", data: { theme: "light" } });
+    // Detached renders are not added to `window.state`
+    const { state } = window as unknown as { state?: Record<string, unknown> };
+    expect(state?.["test-page"]).toBeUndefined();
+  });
+
+  describe("snapshots", () => {
+    const state = { items: ["Plums"], filter: "P", selected: "Plums" };
+
+    it("should write the markup with handlers as actions and tasks", () => {
+      expect(viewTest(state, undefined, { theme: "dark" }).toSnapshot()).toBe(
+        [
+          "<div#test.list class:dark>",
+          "  <span.title>Fruit</span>",
+          '  <input placeholder="Filter" type="search" .value="P" on:input=action("SetFilter", null, {"debounce":200}) />',
+          "  <ul>",
+          '    <li.item key="Plums" class:selected on:click=action("Select", {"item":"Plums"})>',
+          "      <span.name>Plums</span>",
+          "    </li>",
+          "  </ul>",
+          "  <div.count>1 items</div>",
+          '  <button#save.primary type="submit" on:click=task("Save", {"items":["Plums"]})>Save</button>',
+          '  <span#test-badge.badge on:click=[action] on:dblclick=action("Clear")>New</span>',
+          "</div>"
+        ].join("\n")
+      );
+    });
+
+    it("should write the same markup for each render", () => {
+      expect(viewTest(state).toSnapshot()).toBe(viewTest(state).toSnapshot());
+      expect(viewTest().toSnapshot()).not.toBe(viewTest(state).toSnapshot());
+    });
+
+    it("should write the markup of a found element", () => {
+      expect(viewTest().findAll("li")[0].toSnapshot()).toBe(
+        [
+          '<li.item key="Apples" on:click=action("Select", {"item":"Apples"})>',
+          "  <span.name>Apples</span>",
+          "</li>"
+        ].join("\n")
+      );
+    });
+
+    it("should provide a serializer for view nodes", () => {
+      const view = viewTest(state);
+      expect(viewSnapshotSerializer.test(view)).toBe(true);
+      expect(viewSnapshotSerializer.test(view.vnode)).toBe(false);
+      expect(viewSnapshotSerializer.test(null)).toBe(false);
+      expect(viewSnapshotSerializer.serialize(view)).toBe(view.toSnapshot());
+    });
+  });
+
+  it("should type check the view's next data", () => {
+    // Checked by the type-check only
+    const invalid = (): void => {
+      const next = viewTest().find("li")?.on("click");
+      if (next && typeof next !== "function") {
+        // @ts-expect-error not an action or task of the component
+        const isMissing = next.name === "Missing";
+        void isMissing;
+      }
+      // @ts-expect-error items must be strings
+      viewTest({ items: [1], filter: "" });
+    };
+    expect(invalid).toBeInstanceOf(Function);
+  });
+});
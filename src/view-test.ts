@@ -0,0 +1,286 @@
+/*
+Querying the VNodes rendered by a component's view in tests, without a DOM
+
+- Render the view with `viewTest(state, props, rootState)` from `componentTest`
+const view = viewTest({ counter: 1, feedback: "" });
+
+- Find elements by selector, id, class or text, searching descendants as `querySelector` does
+Selectors are tags, ids, classes and attributes, e.g. `button.primary[type="submit"]`,
+combined with spaces for descendants
+const button = view.find("button.increment");
+const items = view.findAllByClass("item");
+const label = view.findByText(/count/i);
+
+- Get the action or task an event handler would run, as `NextData`
+expect(button?.on("click")).toEqual({ name: "Increment", data: { step: 1 } });
+
+- Snapshot the markup, with handlers written as the action or task they run
+expect(view.toSnapshot()).toMatchSnapshot();
+Or `expect.addSnapshotSerializer(viewSnapshotSerializer)` in setup, then `expect(view).toMatchSnapshot()`
+*/
+import { parseSelector, VNode } from "./vdom";
+import { Component, ThunkType } from "./pure-ui-actions.types";
+import type { ChainStep, NextData } from "./component-test";
+
+// Whether a handler is an `action`, `task`, `rootAction` or `rootTask` stub
+type GetNextType = (next: object) => ChainStep["type"] | undefined;
+
+export type ViewNode<TComponent extends Component = Component> = {
+  vnode: VNode;
+  tag: string;
+  id?: string;
+  classes: string[];
+  attrs: Record<string, unknown>;
+  props: Record<string, unknown>;
+  // Text of the element and its descendants
+  text: string;
+  // Child elements, text nodes are included in `text`
+  children: ViewNode<TComponent>[];
+  hasClass: (name: string) => boolean;
+  find: (selector: string) => ViewNode<TComponent> | undefined;
+  findAll: (selector: string) => ViewNode<TComponent>[];
+  findById: (id: string) => ViewNode<TComponent> | undefined;
+  findByClass: (name: string) => ViewNode<TComponent> | undefined;
+  findAllByClass: (name: string) => ViewNode<TComponent>[];
+  // The innermost elements whose text matches
+  findByText: (text: string | RegExp) => ViewNode<TComponent> | undefined;
+  findAllByText: (text: string | RegExp) => ViewNode<TComponent>[];
+  // Handler for an event, as `NextData` for the component's own actions and tasks,
+  // or a function, e.g. an action passed in props
+  on: (event: string) => NextData<TComponent> | Function | undefined;
+  // Readable markup for `toMatchSnapshot`, e.g. `<button.save on:click=task("Save", {"id":1})>`
+  toSnapshot: () => string;
+};
+
+// Snapshot serializer for `expect.addSnapshotSerializer`, writing view nodes as `toSnapshot`
+export const viewSnapshotSerializer = {
+  test: (value: unknown): boolean =>
+    !!value && typeof value === "object" && "vnode" in value && "toSnapshot" in value,
+  serialize: (value: Pick<ViewNode, "toSnapshot">): string => value.toSnapshot()
+};
+
+type SelectorPart = {
+  tag: string;
+  id?: string;
+  classes: string[];
+  attrs: { name: string; value?: string }[];
+};
+
+export function createViewNode<TComponent extends Component = Component>(
+  vnode: VNode,
+  getNextType: GetNextType = (): undefined => undefined
+): ViewNode<TComponent> {
+  const element = resolveMemo(vnode);
+  const { tag, id: selId, classes: selClasses } = parseSelector(element.sel ?? "");
+  const data = element.data ?? {};
+  const attrs: Record<string, unknown> = { ...data.attrs };
+  const props: Record<string, unknown> = { ...data.props };
+  const classes = new Set([
+    ...selClasses,
+    ...`${attrs.class ?? ""} ${props.className ?? ""}`.split(" ").filter(Boolean)
+  ]);
+  Object.entries(data.class ?? {}).forEach(([name, on]) => {
+    if (on) {
+      classes.add(name);
+    } else {
+      classes.delete(name);
+    }
+  });
+
+  const children = getChildren(element)
+    .map((child) => (typeof child === "string" ? undefined : resolveMemo(child)))
+    .filter((child): child is VNode => !!child?.sel && child.sel !== "!")
+    .map((child) => createViewNode<TComponent>(child, getNextType));
+
+  const descendants = (): ViewNode<TComponent>[] =>
+    node.children.flatMap((child) => [child, ...child.findAll("*")]);
+
+  const findAll = (selector: string): ViewNode<TComponent>[] => {
+    const parts = selector.trim().split(/\s+/).map(parseSelectorPart);
+    const last = parts[parts.length - 1];
+    return descendants().filter(
+      (candidate) =>
+        matchesPart(candidate, last) && matchesAncestors(candidate, parts.slice(0, -1), node)
+    );
+  };
+
+  const findAllByText = (text: string | RegExp): ViewNode<TComponent>[] => {
+    const matches = descendants().filter((candidate) => matchesText(candidate.text, text));
+    // Ancestors of a match also contain its text
+    return matches.filter(
+      (match) => !match.children.some((child) => matchesText(child.text, text))
+    );
+  };
+
+  const node: ViewNode<TComponent> = {
+    vnode: element,
+    tag,
+    id: selId ?? (attrs.id as string | undefined) ?? (props.id as string | undefined),
+    classes: Array.from(classes),
+    attrs,
+    props,
+    text: getText(element),
+    children,
+    hasClass: (name) => classes.has(name),
+    find: (selector) => findAll(selector)[0],
+    findAll,
+    findById: (id) => findAll(`#${id}`)[0],
+    findByClass: (name) => findAll(`.${name}`)[0],
+    findAllByClass: (name) => findAll(`.${name}`),
+    findByText: (text) => findAllByText(text)[0],
+    findAllByText,
+    on: (event) =>
+      (data.on as Record<string, NextData<TComponent> | Function> | undefined)?.[event],
+    toSnapshot: () => serialize(element, getNextType).join("\n")
+  };
+  return node;
+}
+
+// Views may include `null` children, e.g. `state.show ? div(...) : null`
+function getChildren(vnode: VNode): (VNode | string)[] {
+  return (vnode.children ?? []).filter((child) => child !== null && child !== undefined);
+}
+
+// `memo` (snabbdom thunk) nodes render their content on init
+function resolveMemo(vnode: VNode): VNode {
+  const data = vnode.data as
+    | (VNode["data"] & { fn?: (...args: unknown[]) => VNode; args?: unknown[] })
+    | undefined;
+  return data?.fn && data.args ? resolveMemo(data.fn(...data.args)) : vnode;
+}
+
+function getText(vnode: VNode): string {
+  if (vnode.sel === "!") return "";
+  if (vnode.children?.length) {
+    return getChildren(vnode)
+      .map((child) => (typeof child === "string" ? child : getText(resolveMemo(child))))
+      .join("");
+  }
+  return vnode.text ?? String(vnode.data?.props?.textContent ?? "");
+}
+
+function matchesText(content: string, text: string | RegExp): boolean {
+  return typeof text === "string" ? content.trim() === text : text.test(content);
+}
+
+// e.g. `button#save.primary[type="submit"]`
+function parseSelectorPart(selector: string): SelectorPart {
+  const attrs: SelectorPart["attrs"] = [];
+  const rest = selector.replace(
+    /\[([^\]=]+)(?:=["']?([^\]"']*)["']?)?\]/g,
+    (_, name: string, value?: string) => {
+      attrs.push({ name, value });
+      return "";
+    }
+  );
+  // Selectors without a tag match any element, e.g. `.item` as `*.item`
+  const { tag, id, classes } = parseSelector(/^[a-z*]/i.test(rest) ? rest : `*${rest}`);
+  return { tag: tag === "*" ? "" : tag, id, classes, attrs };
+}
+
+function matchesPart<TComponent extends Component>(
+  node: ViewNode<TComponent>,
+  part: SelectorPart
+): boolean {
+  return (
+    (!part.tag || node.tag === part.tag) &&
+    (part.id === undefined || node.id === part.id) &&
+    part.classes.every((name) => node.hasClass(name)) &&
+    part.attrs.every(
+      ({ name, value }) =>
+        (name in node.attrs || name in node.props) &&
+        (value === undefined || String(node.attrs[name] ?? node.props[name]) === value)
+    )
+  );
+}
+
+// Each earlier part of a descendant selector matches an ancestor in order, which as with
+// `querySelector` may be `root` itself
+function matchesAncestors<TComponent extends Component>(
+  node: ViewNode<TComponent>,
+  parts: SelectorPart[],
+  root: ViewNode<TComponent>
+): boolean {
+  if (!parts.length) return true;
+  const path = [root, ...(findPath(root, node) ?? [])];
+  let index = parts.length - 1;
+  for (let i = path.length - 1; i >= 0 && index >= 0; i--) {
+    if (matchesPart(path[i], parts[index])) {
+      index--;
+    }
+  }
+  return index < 0;
+}
+
+// Ancestors of `node` below `root`
+function findPath<TComponent extends Component>(
+  root: ViewNode<TComponent>,
+  node: ViewNode<TComponent>
+): ViewNode<TComponent>[] | undefined {
+  for (const child of root.children) {
+    if (child === node) return [];
+    const path = findPath(child, node);
+    if (path) return [child, ...path];
+  }
+}
+
+// Lines of markup for a VNode, children indented by two spaces
+function serialize(vnode: VNode, getNextType: GetNextType): string[] {
+  const element = resolveMemo(vnode);
+  if (!element.sel) {
+    return element.text ? [element.text] : [];
+  }
+  if (element.sel === "!") {
+    return [`<!-- ${element.text ?? ""} -->`];
+  }
+
+  const data = element.data ?? {};
+  const sorted = <T>(values?: Record<string, T>): [string, T][] =>
+    Object.entries(values ?? {}).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const fields = [
+    ...(element.key !== undefined ? [`key=${format(element.key)}`] : []),
+    ...sorted(data.class)
+      .filter(([, on]) => on)
+      .map(([name]) => `class:${name}`),
+    ...sorted(data.attrs).map(([name, value]) => `${name}=${format(value)}`),
+    ...sorted(data.props).map(([name, value]) => `.${name}=${format(value)}`),
+    ...sorted(data.on as Record<string, unknown> | undefined).map(
+      ([event, handler]) => `on:${event}=${formatHandler(handler, getNextType)}`
+    )
+  ];
+  const open = `<${element.sel}${fields.map((field) => ` ${field}`).join("")}`;
+  const close = `</${parseSelector(element.sel).tag}>`;
+
+  const children = getChildren(element).flatMap((child) =>
+    typeof child === "string" ? [child] : serialize(child, getNextType)
+  );
+  if (!children.length) {
+    return element.text !== undefined ? [`${open}>${element.text}${close}`] : [`${open} />`];
+  }
+  return [`${open}>`, ...children.map((line) => `  ${line}`), close];
+}
+
+// e.g. `action("Select", {"item":"Pears"})`, or `[action]` for a thunk passed in props
+function formatHandler(handler: unknown, getNextType: GetNextType): string {
+  if (typeof handler === "function") {
+    const thunk = handler as { type?: ThunkType; taskName?: string };
+    if (thunk.type === ThunkType.Action) return "[action]";
+    if (thunk.type === ThunkType.Task) return `[task ${format(thunk.taskName)}]`;
+    return "[function]";
+  }
+  if (handler && typeof handler === "object" && "name" in handler) {
+    const { name, data, timing } = handler as NextData;
+    const args = [
+      name,
+      ...(data !== undefined || timing ? [data] : []),
+      ...(timing ? [timing] : [])
+    ];
+    return `${getNextType(handler) ?? "action"}(${args.map(format).join(", ")})`;
+  }
+  return format(handler);
+}
+
+function format(value: unknown): string {
+  if (typeof value === "function") return "[function]";
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}